@@ -1,8 +1,69 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { EDITING_PRESETS } from './constants';
-import { HistoryItem, SubPreset } from './types';
+import { ComparePair, EditingPreset, HistoryItem, PresetParamValues, Recipe, RecipeRun, ReferenceImage, SubPreset, UsageRecord, Variant, VariantSet } from './types';
+import EditChain from './components/EditChain';
+import HistoryPanel from './components/HistoryPanel';
+import RecipePanel from './components/RecipePanel';
+import RecipeRunView from './components/RecipeRunView';
+import BatchPanel from './components/BatchPanel';
+import MaskCanvas from './components/MaskCanvas';
+import ExportDialog from './components/ExportDialog';
+import CompareViewer from './components/CompareViewer';
+import CameraCapture from './components/CameraCapture';
+import PresetManager from './components/PresetManager';
+import PresetParamsForm from './components/PresetParamsForm';
+import VariantPicker from './components/VariantPicker';
+import ReferencePanel from './components/ReferencePanel';
+import ProcessingOverlay from './components/ProcessingOverlay';
+import AnalysisPanel from './components/AnalysisPanel';
+import UsageDashboard from './components/UsageDashboard';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { deleteHistoryItem, getHistoryLimit, loadHistory, pruneHistory, retainHistory, saveHistoryItem, setHistoryLimit, updateHistoryItem } from './services/historyStore';
+import { loadRecipes, saveRecipes } from './services/recipeStore';
+import { loadCustomPresets, saveCustomPresets } from './services/presetStore';
+import { createProjectFile, ProjectFileError, ProjectWorkspace, readProjectFile } from './services/projectFile';
+import { clearUsage, loadBudget, loadPriceTable, loadUsage, ModelPrice, saveBudget, savePriceTable, saveUsageRecord, UsageBudget } from './services/usageStore';
+import {
+  EDIT_TIMEOUT_OPTIONS,
+  getAutoTag,
+  getEditTimeout,
+  getMaxEdge,
+  getTiledMode,
+  getVariantCount,
+  MAX_EDGE_OPTIONS,
+  setAutoTag,
+  setEditTimeout,
+  setMaxEdge,
+  setTiledMode,
+  setVariantCount as saveVariantCount,
+  VARIANT_COUNT_OPTIONS
+} from './services/preferences';
+import {
+  getImageEditProvider,
+  getImageEditProviderId,
+  IMAGE_EDIT_PROVIDERS,
+  ImageAnalysis,
+  ImageEditError,
+  ImageEditProvider,
+  ImageEditProviderId,
+  ImageEditReference,
+  ImageEditUsage,
+  setImageEditProviderId,
+  throwIfAborted
+} from './services/imageEdit';
+import { getChain, getNextStep, getTree } from './utils/editChain';
+import { collectDroppedFiles, isImageFile, readFileAsDataUrl } from './utils/files';
+import { downloadBlob } from './utils/download';
+import { getMimeType } from './utils/image';
+import { createTimeoutSignal, runWithConcurrency, withRetry } from './utils/async';
+import { createNotice, ErrorNotice, getErrorNotice, isCancelledError, isRetryableError } from './utils/errors';
+import { compositeWithMask, maskToBinary } from './utils/mask';
+import { toEditReferences } from './utils/references';
+import { fitToMaxEdge, normalizeImage, UnsupportedImageError } from './utils/preprocess';
+import { blendTiles, getTileCount, splitIntoTiles, TILE_INSTRUCTION } from './utils/tiles';
+import { findSubPreset, getParamValues, getStepParams, getStepPrompt, resolvePrompt } from './utils/presets';
+import { formatCost, getAverageCost, getPeriodSpend } from './utils/usage';
 
 // Augment window to handle the AI Studio integration
 declare global {
@@ -15,24 +76,123 @@ declare global {
   }
 }
 
+// Automatic retries for transient failures (rate limits, network blips) on interactive edits
+const AUTO_RETRIES = 2;
+const AUTO_RETRY_DELAY_MS = 1500;
+const TILE_CONCURRENCY = 2;
+// Tiled edits with more requests than this ask before starting
+const TILE_CONFIRM_THRESHOLD = 8;
+
+interface EditOptions {
+  mask?: string;
+  references?: ImageEditReference[];
+  retries?: number;
+  signal?: AbortSignal;
+  onProgress?: (status: string) => void;
+  // Receives a record for every backend call made, so the caller can attach them to its history entry
+  usage?: UsageRecord[];
+}
+
 const App: React.FC = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [providerId, setProviderId] = useState<ImageEditProviderId>(getImageEditProviderId);
   const [image, setImage] = useState<string | null>(null);
   const [originalMimeType, setOriginalMimeType] = useState<string>('image/png');
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [comparePair, setComparePair] = useState<ComparePair | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [autoApplyCapture, setAutoApplyCapture] = useState(false);
   const [editedImage, setEditedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   const [expandedCategoryId, setExpandedCategoryId] = useState<string | null>(null);
   const [selectedSubPreset, setSelectedSubPreset] = useState<SubPreset | null>(null);
+  const [presetParams, setPresetParams] = useState<PresetParamValues>({});
   
   const [customPrompt, setCustomPrompt] = useState('');
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // The stored history mirrors this list, so pruning works from it instead of reading stored images back
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [historyLimit, setHistoryLimitState] = useState<number>(getHistoryLimit);
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  // Repeats whatever produced the current error, for the banner's retry action
+  const retryRef = useRef<(() => void) | null>(null);
+
+  // Edit chain navigation: the version on screen and the furthest version redo can reach
+  const [continueFromResult, setContinueFromResult] = useState(false);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+  const [tipNodeId, setTipNodeId] = useState<string | null>(null);
+
+  const [recipes, setRecipes] = useState<Recipe[]>(loadRecipes);
+  const [recipeRun, setRecipeRun] = useState<RecipeRun | null>(null);
+
+  // User-defined categories are listed after the built-in ones
+  const [customPresets, setCustomPresets] = useState<EditingPreset[]>(loadCustomPresets);
+  const [showPresetManager, setShowPresetManager] = useState(false);
+  const presets = [...EDITING_PRESETS, ...customPresets];
+
+  // Regional editing: the painted mask (transparent outside the selection) and edge softness in px
+  const [maskMode, setMaskMode] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [maskFeather, setMaskFeather] = useState(12);
+
+  const [variantCount, setVariantCount] = useState<number>(getVariantCount);
+  const [maxEdge, setMaxEdgeState] = useState<number>(getMaxEdge);
+  const [tiledMode, setTiledModeState] = useState<boolean>(getTiledMode);
+  // Requests a tiled edit of the current source would make, shown next to the toggle
+  const [tileCount, setTileCount] = useState(0);
+  // Progress detail shown under the processing spinner
+  const [processingStatus, setProcessingStatus] = useState<string | null>(null);
+  const [runStartedAt, setRunStartedAt] = useState(0);
+  const [editTimeout, setEditTimeoutState] = useState<number>(getEditTimeout);
+  const abortRef = useRef<AbortController | null>(null);
+  const [variantSet, setVariantSet] = useState<VariantSet | null>(null);
+
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+
+  // Latest ANALYZE result and the image it describes, so suggestions apply to that image
+  const [analysis, setAnalysis] = useState<{ result: ImageAnalysis; source: string; parentId?: string } | null>(null);
+  const [autoTag, setAutoTagState] = useState<boolean>(getAutoTag);
+
+  // Every backend call, newest first, plus what the dashboard needs to turn tokens into money
+  const [usage, setUsage] = useState<UsageRecord[]>([]);
+  const [priceTable, setPriceTable] = useState<ModelPrice[]>(loadPriceTable);
+  const [budget, setBudget] = useState<UsageBudget | null>(loadBudget);
+  const [showUsage, setShowUsage] = useState(false);
+  // Recipe steps commit from one long-running closure, so background calls read spend from here
+  const usageRef = useRef(usage);
+  usageRef.current = usage;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const tileSource = continueFromResult && editedImage ? editedImage : image;
+  useEffect(() => {
+    if (!tileSource) return;
+    let cancelled = false;
+    getTileCount(tileSource)
+      .then(count => !cancelled && setTileCount(count))
+      .catch(err => console.error("Failed to count tiles:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [tileSource]);
+
+  // The batch queue runs its own, longer backoff, so no automatic retries here
+  const batch = useBatchQueue((source, mimeType, prompt, signal) =>
+    requestEdit(source, mimeType, prompt, { references: toEditReferences(references), retries: 0, signal }));
 
   useEffect(() => {
     const checkExistingConnection = async () => {
+      // The mock backend runs offline and needs no key
+      if (providerId === 'mock') {
+        setIsLoggedIn(true);
+        return;
+      }
+
       // Check if a key is already available in the environment
       if (process.env.API_KEY && process.env.API_KEY !== "undefined") {
         setIsLoggedIn(true);
@@ -52,6 +212,16 @@ const App: React.FC = () => {
     checkExistingConnection();
   }, []);
 
+  useEffect(() => {
+    loadHistory()
+      .then(items => pruneHistory(items, getHistoryLimit()))
+      .then(setHistory)
+      .catch(err => console.error("Failed to load history:", err));
+    loadUsage()
+      .then(setUsage)
+      .catch(err => console.error("Failed to load usage:", err));
+  }, []);
+
   const handleLogin = async () => {
     setError(null);
     try {
@@ -68,88 +238,788 @@ const App: React.FC = () => {
     }
   };
 
+  const loadSourceFile = async (file: File): Promise<string> => {
+    const dataUrl = await normalizeImage(await readFileAsDataUrl(file));
+    setOriginalMimeType(getMimeType(dataUrl));
+    setSourceName(file.name);
+    setImage(dataUrl);
+    setMask(null);
+    setEditedImage(null);
+    setCurrentNodeId(null);
+    setTipNodeId(null);
+    setAnalysis(null);
+    setError(null);
+    return dataUrl;
+  };
+
+  const handleCapture = async (file: File) => {
+    setShowCamera(false);
+    let source: string;
+    try {
+      source = await loadSourceFile(file);
+    } catch (err) {
+      console.error("Failed to read captured photo:", err);
+      setError(createNotice(err instanceof UnsupportedImageError ? err.message : "The photo could not be read."));
+      return;
+    }
+    if (autoApplyCapture) {
+      processImage({
+        source,
+        prompt: getActivePrompt(),
+        presetId: getActivePresetId(),
+        params: getActiveParams(),
+        references: getActiveReferences(),
+        sourceName: file.name
+      });
+    }
+  };
+
+  // A single image opens in the editor; several go to the batch queue
+  const handleFiles = (files: File[]) => {
+    if (files.length === 1) {
+      loadSourceFile(files[0]).catch(err => {
+        console.error("Failed to read file:", err);
+        setError(createNotice(err instanceof UnsupportedImageError ? err.message : "The image could not be read."));
+      });
+    } else if (files.length > 1) {
+      batch.addFiles(files).then(skipped => {
+        if (!skipped.length) return;
+        const listed = skipped.slice(0, 5).join(', ') + (skipped.length > 5 ? `, and ${skipped.length - 5} more` : '');
+        setError(createNotice(
+          `${skipped.length} of ${files.length} files could not be read and were skipped: ${listed}. The rest were queued.`,
+          'Some Files Were Skipped'
+        ));
+      });
+    }
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setOriginalMimeType(file.type);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImage(reader.result as string);
-        setEditedImage(null);
-        setError(null);
-      };
-      reader.readAsDataURL(file);
+    handleFiles(Array.from(e.target.files ?? []).filter(isImageFile));
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    let files: File[];
+    try {
+      files = await collectDroppedFiles(e.dataTransfer);
+    } catch (err) {
+      console.error("Failed to read dropped files:", err);
+      setError(createNotice("The dropped files could not be read."));
+      return;
+    }
+    handleFiles(files);
+  };
+
+  const getActivePrompt = () => customPrompt || (selectedSubPreset ? resolvePrompt(selectedSubPreset, presetParams) : "Enhance this image.");
+  const getActivePresetId = () => (customPrompt ? undefined : selectedSubPreset?.id);
+  const getActiveReferences = () => (references.length ? references : undefined);
+  const getActiveParams = () => (customPrompt || !selectedSubPreset ? undefined : getParamValues(selectedSubPreset, presetParams));
+
+  // A custom preset saved without a prompt (or a prompt made only of blank parameters) is never sent
+  const requirePrompt = (prompt: string) => {
+    if (prompt.trim()) return true;
+    setError(createNotice("The selected preset has no prompt. Add one in the preset manager or type a custom prompt.", 'Nothing To Send'));
+    return false;
+  };
+
+  const selectSubPreset = (sub: SubPreset, params?: PresetParamValues) => {
+    setSelectedSubPreset(sub);
+    setPresetParams(getParamValues(sub, params) ?? {});
+    setCustomPrompt('');
+  };
+
+  // The photo being edited is exempt from the retention limit, so an opened project keeps its whole tree
+  const getProtectedIds = (items: HistoryItem[], nodeId: string | null) => new Set(getTree(items, nodeId).map(node => node.id));
+
+  const addToHistory = async (item: HistoryItem) => {
+    const next = [item, ...historyRef.current];
+    const kept = new Set(retainHistory(next, historyLimit, getProtectedIds(next, item.id)).map(h => h.id));
+    const dropped = next.filter(h => !kept.has(h.id)).map(h => h.id);
+    setHistory(prev => [item, ...prev].filter(h => !dropped.includes(h.id)));
+    try {
+      await saveHistoryItem(item);
+      if (dropped.length) await deleteHistoryItem(dropped);
+    } catch (err) {
+      console.error("Failed to persist history:", err);
+    }
+  };
+
+  const handleHistoryLimitChange = async (limit: number) => {
+    let kept: HistoryItem[];
+    try {
+      kept = await pruneHistory(history, limit, getProtectedIds(history, tipNodeId ?? currentNodeId));
+    } catch (err) {
+      console.error("Failed to apply history limit:", err);
+      setError(createNotice("Old history entries could not be removed, so the limit was not changed."));
+      return;
+    }
+    setHistoryLimit(limit);
+    setHistoryLimitState(limit);
+    setHistory(kept);
+  };
+
+  // A mask is painted over one source image, so it goes when the source changes
+  const showNode = (item: HistoryItem) => {
+    if (item.original !== image) setMask(null);
+    setImage(item.original);
+    setSourceName(item.sourceName ?? null);
+    setOriginalMimeType(getMimeType(item.original));
+    setEditedImage(item.edited);
+    setCurrentNodeId(item.id);
+    setError(null);
+  };
+
+  const handleRestore = (item: HistoryItem) => {
+    showNode(item);
+    setTipNodeId(item.id);
+    // Bring back the preset settings too, so the result can be tweaked and reproduced
+    const sub = item.presetId ? findSubPreset(presets, item.presetId) : undefined;
+    if (sub) selectSubPreset(sub, item.params);
+    if (item.references?.length) setReferences(item.references);
+  };
+
+  const handleRerun = (item: HistoryItem) => {
+    handleRestore(item);
+    processImage({
+      source: item.original,
+      prompt: item.prompt,
+      presetId: item.presetId,
+      params: item.params,
+      references: item.references,
+      parentId: item.parentId,
+      sourceName: item.sourceName
+    });
+  };
+
+  const chain = getChain(history, tipNodeId);
+  const currentIndex = chain.findIndex(node => node.id === currentNodeId);
+
+  // Steps back to the chain's first upload, keeping later versions reachable through redo
+  const showChainRoot = () => {
+    if (!chain.length) return;
+    if (chain[0].original !== image) setMask(null);
+    setImage(chain[0].original);
+    setOriginalMimeType(getMimeType(chain[0].original));
+    setEditedImage(null);
+    setCurrentNodeId(null);
+  };
+
+  const handleUndo = () => {
+    if (currentIndex > 0) showNode(chain[currentIndex - 1]);
+    else if (currentIndex === 0) showChainRoot();
+  };
+
+  const handleRedo = () => {
+    if (currentIndex < chain.length - 1) showNode(chain[currentIndex + 1]);
+  };
+
+  const handleProviderChange = (id: ImageEditProviderId) => {
+    setImageEditProviderId(id);
+    setProviderId(id);
+  };
+
+  const handleVariantCountChange = (count: number) => {
+    saveVariantCount(count);
+    setVariantCount(count);
+  };
+
+  const handleMaxEdgeChange = (edge: number) => {
+    setMaxEdge(edge);
+    setMaxEdgeState(edge);
+  };
+
+  const handleEditTimeoutChange = (seconds: number) => {
+    setEditTimeout(seconds);
+    setEditTimeoutState(seconds);
+  };
+
+  const handleTiledModeChange = (enabled: boolean) => {
+    setTiledMode(enabled);
+    setTiledModeState(enabled);
+  };
+
+  const handleAutoTagChange = (enabled: boolean) => {
+    setAutoTag(enabled);
+    setAutoTagState(enabled);
+  };
+
+  const handlePriceTableChange = (next: ModelPrice[]) => {
+    setPriceTable(next);
+    savePriceTable(next);
+  };
+
+  const handleBudgetChange = (next: UsageBudget | null) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const handleClearUsage = async () => {
+    setUsage([]);
+    try {
+      await clearUsage();
+    } catch (err) {
+      console.error("Failed to clear usage:", err);
+    }
+  };
+
+  const budgetSpent = budget ? getPeriodSpend(usage, priceTable, budget.period) : 0;
+
+  // Soft cap: asks first when the period's estimate has reached the budget, or when the
+  // `calls` this run is about to make would take it there
+  const confirmBudget = (calls = 1, kind: UsageRecord['kind'] = 'edit') => {
+    if (!budget) return true;
+    const provider = getImageEditProvider(providerId);
+    const runCost = calls * getAverageCost(usage, priceTable, kind === 'analyze' ? provider.analysisModel : provider.model);
+    if (budgetSpent + runCost < budget.amount) return true;
+    const period = budget.period === 'day' ? 'today' : 'this month';
+    return window.confirm(budgetSpent >= budget.amount
+      ? `Estimated spend ${period} is ${formatCost(budgetSpent)}, which has reached your ${formatCost(budget.amount)} budget. Run anyway?`
+      : `This run makes ${calls} request${calls === 1 ? '' : 's'}, estimated at ${formatCost(runCost)}. That would take spend ${period} from ${formatCost(budgetSpent)} past your ${formatCost(budget.amount)} budget. Run anyway?`
+    );
+  };
+
+  const handleRecipesChange = (next: Recipe[]) => {
+    setRecipes(next);
+    saveRecipes(next);
+  };
+
+  const handleCustomPresetsChange = (next: EditingPreset[]) => {
+    setCustomPresets(next);
+    saveCustomPresets(next);
+    // Keep the selection in sync with edits made in the manager
+    if (selectedSubPreset) {
+      setSelectedSubPreset(findSubPreset([...EDITING_PRESETS, ...next], selectedSubPreset.id) ?? null);
+    }
+  };
+
+  const describeNode = (item: HistoryItem) => `Step ${item.step + 1} · ${new Date(item.timestamp).toLocaleTimeString()}`;
+
+  const handleCompareHistory = (items: HistoryItem[]) => {
+    if (items.length === 1) {
+      setComparePair({ before: items[0].original, after: items[0].edited, beforeLabel: 'Before', afterLabel: describeNode(items[0]) });
+      return;
+    }
+    const [older, newer] = [...items].sort((a, b) => a.timestamp - b.timestamp);
+    setComparePair({ before: older.edited, after: newer.edited, beforeLabel: describeNode(older), afterLabel: describeNode(newer) });
+  };
+
+  // Swaps an alternate in as the entry's main result
+  const handleUseAlternate = async (item: HistoryItem, alternate: Variant) => {
+    const updated: HistoryItem = {
+      ...item,
+      edited: alternate.image,
+      favorite: alternate.favorite,
+      alternates: (item.alternates ?? []).map(v => (v.id === alternate.id ? { id: alternate.id, image: item.edited, favorite: item.favorite } : v))
+    };
+    setHistory(prev => prev.map(h => (h.id === item.id ? updated : h)));
+    if (currentNodeId === item.id) setEditedImage(updated.edited);
+    try {
+      await saveHistoryItem(updated);
+    } catch (err) {
+      console.error("Failed to update history item:", err);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const blob = await createProjectFile({
+        image,
+        sourceName,
+        editedImage,
+        currentNodeId,
+        tipNodeId,
+        continueFromResult,
+        selectedSubPresetId: selectedSubPreset?.id ?? null,
+        presetParams,
+        customPrompt,
+        references,
+        mask,
+        maskFeather,
+        // Only this photo's edits; the rest of the local history stays private
+        history: getTree(history, tipNodeId ?? currentNodeId)
+      });
+      const baseName = sourceName?.replace(/\.[^./]+$/, '') || 'untitled';
+      downloadBlob(blob, `${baseName}.lens.zip`);
+    } catch (err) {
+      console.error("Failed to save project:", err);
+      setError(createNotice("The project could not be saved."));
     }
   };
 
-  const processImage = async () => {
-    if (!image) return;
+  // Restores a saved workspace. The project's history is merged into the local one rather than
+  // replacing it, so opening a colleague's file never deletes your own edits.
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let project: ProjectWorkspace;
+    try {
+      project = await readProjectFile(file);
+    } catch (err) {
+      console.error("Failed to open project:", err);
+      const notice = createNotice(err instanceof ProjectFileError ? err.message : "The project could not be read.", 'Could Not Open Project');
+      setError(err instanceof ProjectFileError && err.issues.length ? { ...notice, details: err.issues.join('; ') } : notice);
+      return;
+    }
+
+    setImage(project.image);
+    setOriginalMimeType(project.image ? getMimeType(project.image) : 'image/png');
+    setSourceName(project.sourceName);
+    setEditedImage(project.editedImage);
+    setCurrentNodeId(project.currentNodeId);
+    setTipNodeId(project.tipNodeId);
+    setContinueFromResult(project.continueFromResult);
+    const sub = project.selectedSubPresetId ? findSubPreset(presets, project.selectedSubPresetId) : undefined;
+    setSelectedSubPreset(sub ?? null);
+    setPresetParams(sub ? getParamValues(sub, project.presetParams) ?? {} : {});
+    setCustomPrompt(project.customPrompt);
+    setReferences(project.references);
+    setMask(project.mask);
+    setMaskFeather(project.maskFeather);
+    setMaskMode(false);
+    setVariantSet(null);
+    setRecipeRun(null);
+    setAnalysis(null);
     setError(null);
+
+    const imported = new Set(project.history.map(item => item.id));
+    setHistory(prev => [...project.history, ...prev.filter(item => !imported.has(item.id))].sort((a, b) => b.timestamp - a.timestamp));
+    try {
+      await Promise.all(project.history.map(saveHistoryItem));
+    } catch (err) {
+      console.error("Failed to persist project history:", err);
+    }
+  };
+
+  const handleDeleteHistoryItem = async (item: HistoryItem) => {
+    setHistory(prev => prev.filter(h => h.id !== item.id));
+    try {
+      await deleteHistoryItem(item.id);
+    } catch (err) {
+      console.error("Failed to delete history item:", err);
+    }
+  };
+
+  // Each editor run gets its own controller so the preview overlay can cancel it
+  const beginRun = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunStartedAt(Date.now());
+    setProcessingStatus(null);
     setIsProcessing(true);
+    return controller.signal;
+  };
+
+  const endRun = () => {
+    abortRef.current = null;
+    setIsProcessing(false);
+    setProcessingStatus(null);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
 
+  // Times one backend call and logs what it consumed, whether or not it succeeded
+  const trackUsage = async <T,>(
+    provider: ImageEditProvider,
+    kind: UsageRecord['kind'],
+    call: (onUsage: (usage: ImageEditUsage) => void) => Promise<T>,
+    collected?: UsageRecord[]
+  ): Promise<T> => {
+    const startedAt = Date.now();
+    let tokens: ImageEditUsage | undefined;
+    let error: string | undefined;
     try {
-      // CRITICAL: Create a NEW instance right before the call to ensure it uses the most up-to-date API key
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-      const base64Data = image.split(',')[1];
-      const promptText = customPrompt || (selectedSubPreset ? selectedSubPreset.prompt : "Enhance this image.");
-
-      // Using gemini-2.5-flash-image for image editing tasks as per instructions
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: base64Data,
-                mimeType: originalMimeType,
-              },
-            },
-            {
-              text: promptText,
-            },
-          ],
-        },
+      return await call(reported => { tokens = reported; });
+    } catch (err) {
+      error = err instanceof ImageEditError ? err.kind : 'unknown';
+      throw err;
+    } finally {
+      const record: UsageRecord = {
+        id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: startedAt,
+        provider: provider.id,
+        model: kind === 'analyze' ? provider.analysisModel : provider.model,
+        kind,
+        inputTokens: tokens?.inputTokens ?? 0,
+        outputTokens: tokens?.outputTokens ?? 0,
+        totalTokens: tokens?.totalTokens ?? 0,
+        metadata: tokens?.metadata,
+        latencyMs: Date.now() - startedAt,
+        success: !error,
+        error
+      };
+      collected?.push(record);
+      setUsage(prev => [record, ...prev]);
+      saveUsageRecord(record).catch(err => console.error("Failed to record usage:", err));
+    }
+  };
+
+  // Runs one edit through the selected provider and returns every image it produced
+  const requestEditImages = async (source: string, mimeType: string, promptText: string, options: EditOptions = {}): Promise<string[]> => {
+    const provider = getImageEditProvider(providerId);
+    const { mask, references, retries = AUTO_RETRIES, signal, onProgress, usage: collected } = options;
+    // Everything sent is capped at the configured size; results come back at that size
+    const [image, scaledMask, scaledReferences] = await Promise.all([
+      fitToMaxEdge(source, maxEdge),
+      mask ? fitToMaxEdge(mask, maxEdge) : undefined,
+      references && Promise.all(references.map(async ref => ({ ...ref, image: await fitToMaxEdge(ref.image, maxEdge) })))
+    ]);
+    const request = { image, mimeType, prompt: promptText, mask: scaledMask, references: scaledReferences, onProgress };
+    // The timeout applies to each attempt, not to the run as a whole
+    const attempt = async () => {
+      const timeout = createTimeoutSignal(signal, editTimeout * 1000, () => new ImageEditError('timeout', `No response after ${editTimeout}s.`));
+      try {
+        return await trackUsage(provider, 'edit', onUsage => provider.edit({ ...request, signal: timeout.signal, onUsage }), collected);
+      } finally {
+        timeout.clear();
+      }
+    };
+    const { images } = await withRetry(attempt, {
+      retries,
+      baseDelayMs: AUTO_RETRY_DELAY_MS,
+      shouldRetry: isRetryableError,
+      signal
+    });
+    return images;
+  };
+
+  const requestEdit = async (source: string, mimeType: string, promptText: string, options?: EditOptions): Promise<string> =>
+    (await requestEditImages(source, mimeType, promptText, options))[0];
+
+  // Runs `count` edits in parallel. Extra image parts in a response count towards the total.
+  // Only fails when every request failed.
+  const requestVariants = async (source: string, mimeType: string, promptText: string, count: number, options?: EditOptions): Promise<string[]> => {
+    const results = await Promise.allSettled(Array.from({ length: count }, () => requestEditImages(source, mimeType, promptText, options)));
+    const images = results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+    if (!images.length) throw (results[0] as PromiseRejectedResult).reason;
+    return images.slice(0, count);
+  };
+
+  // Edits a large image tile by tile at full resolution and blends the results back together
+  const requestTiled = async (source: string, mimeType: string, promptText: string, options?: EditOptions): Promise<string> => {
+    const { tiles, width, height } = await splitIntoTiles(source);
+    if (tiles.length === 1) return requestEdit(source, mimeType, promptText, options);
+
+    const edited: string[] = [];
+    let done = 0;
+    setProcessingStatus(`Tile 0 of ${tiles.length}`);
+    await runWithConcurrency(tiles.map((_, i) => i), TILE_CONCURRENCY, async i => {
+      edited[i] = await requestEdit(tiles[i].image, mimeType, `${promptText}\n\n${TILE_INSTRUCTION}`, {
+        references: options?.references,
+        signal: options?.signal,
+        usage: options?.usage
       });
+      setProcessingStatus(`Tile ${++done} of ${tiles.length}`);
+    });
+    setProcessingStatus('Blending tiles');
+    return blendTiles(tiles, edited, width, height);
+  };
 
-      let foundImage = false;
-      // Iterate through parts to find the image part as recommended
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            const newImage = `data:image/png;base64,${part.inlineData.data}`;
-            setEditedImage(newImage);
-            
-            setHistory(prev => [{
-              id: Date.now().toString(),
-              original: image,
-              edited: newImage,
-              prompt: promptText,
-              timestamp: Date.now()
-            }, ...prev].slice(0, 10));
-            foundImage = true;
-            break;
-          }
-        }
+  // Asks the provider to describe the image and rank the presets that would improve it
+  const requestAnalysis = async (source: string, mimeType: string, signal?: AbortSignal, collected?: UsageRecord[]): Promise<ImageAnalysis> => {
+    const provider = getImageEditProvider(providerId);
+    const image = await fitToMaxEdge(source, maxEdge);
+    const candidates = presets.flatMap(preset => preset.subPresets.map(sub => ({ id: sub.id, label: sub.label, prompt: sub.prompt })));
+    const attempt = async () => {
+      const timeout = createTimeoutSignal(signal, editTimeout * 1000, () => new ImageEditError('timeout', `No response after ${editTimeout}s.`));
+      try {
+        return await trackUsage(provider, 'analyze', onUsage => provider.analyze({ image, mimeType, candidates, signal: timeout.signal, onUsage }), collected);
+      } finally {
+        timeout.clear();
+      }
+    };
+    return withRetry(attempt, { retries: AUTO_RETRIES, baseDelayMs: AUTO_RETRY_DELAY_MS, shouldRetry: isRetryableError, signal });
+  };
+
+  // Stores an analysis's caption and tags on a history entry so it can be searched,
+  // along with the usage of the calls that produced them
+  const tagHistoryItem = async (id: string, { caption, tags }: ImageAnalysis, calls: UsageRecord[]) => {
+    try {
+      const updated = await updateHistoryItem(id, item => ({ caption, tags, usage: [...(item.usage ?? []), ...calls] }));
+      // Only the tagged fields are merged, so changes made while the analysis ran aren't overwritten
+      if (updated) setHistory(prev => prev.map(h => (h.id === id ? { ...h, caption, tags, usage: [...(h.usage ?? []), ...calls] } : h)));
+    } catch (err) {
+      console.error("Failed to tag history item:", err);
+    }
+  };
+
+  // Runs in the background after an edit is committed; failures only reach the console
+  const autoTagNode = async (node: HistoryItem) => {
+    // Nothing prompts for this call, so once the budget is reached it is simply skipped
+    if (budget && getPeriodSpend(usageRef.current, priceTable, budget.period) >= budget.amount) return;
+    const calls: UsageRecord[] = [];
+    try {
+      await tagHistoryItem(node.id, await requestAnalysis(node.edited, getMimeType(node.edited), undefined, calls), calls);
+    } catch (err) {
+      console.error("Failed to auto-tag history item:", err);
+    }
+  };
+
+  const handleEditError = (err: unknown): ErrorNotice => {
+    console.error("AI processing error:", err);
+    return getErrorNotice(err);
+  };
+
+  // Continuing builds on the current version; otherwise the edit branches off the same source
+  const getEditSource = () => {
+    const continuing = continueFromResult && !!editedImage;
+    const source = continuing ? editedImage : image;
+    return {
+      continuing,
+      source,
+      mimeType: continuing && editedImage ? getMimeType(editedImage) : originalMimeType,
+      parentId: continuing ? currentNodeId ?? undefined : chain[currentIndex]?.parentId
+    };
+  };
+
+  // Shows a finished node in the editor and makes it the new tip of the chain
+  const commitNode = async (node: HistoryItem) => {
+    if (node.original !== image) setMask(null);
+    setImage(node.original);
+    setOriginalMimeType(getMimeType(node.original));
+    setEditedImage(node.edited);
+    setCurrentNodeId(node.id);
+    setTipNodeId(node.id);
+    await addToHistory(node);
+    if (autoTag) autoTagNode(node);
+  };
+
+  const createNode = (details: Omit<VariantSet, 'requested' | 'failed' | 'variants'>, edited: string, extra?: Partial<HistoryItem>): HistoryItem => ({
+    id: Date.now().toString(),
+    original: details.source,
+    edited,
+    prompt: details.prompt,
+    presetId: details.presetId,
+    params: details.params,
+    references: details.references,
+    sourceName: details.sourceName,
+    usage: details.usage,
+    parentId: details.parentId,
+    step: getNextStep(history, details.parentId),
+    timestamp: Date.now(),
+    ...extra
+  });
+
+  // Picking a variant commits it as the edit's result; the rest stay on the entry as alternates
+  const handlePickVariant = async (variant: Variant) => {
+    if (!variantSet) return;
+    const { requested, failed, variants, ...details } = variantSet;
+    const alternates = variants.filter(v => v.id !== variant.id);
+    setVariantSet(null);
+    await commitNode(createNode(details, variant.image, {
+      favorite: variant.favorite,
+      alternates: alternates.length ? alternates : undefined
+    }));
+  };
+
+  const updateVariants = (update: (variants: Variant[]) => Variant[]) => {
+    setVariantSet(prev => {
+      if (!prev) return prev;
+      const variants = update(prev.variants);
+      return variants.length ? { ...prev, variants } : null;
+    });
+  };
+
+  const processImage = async (override?: {
+    source: string;
+    prompt: string;
+    presetId?: string;
+    params?: PresetParamValues;
+    references?: ReferenceImage[];
+    parentId?: string;
+    sourceName?: string;
+  }) => {
+    const current = getEditSource();
+    const source = override?.source ?? current.source;
+    if (!source) return;
+    const promptText = override?.prompt ?? getActivePrompt();
+    if (!requirePrompt(promptText)) return;
+    const presetId = override ? override.presetId : getActivePresetId();
+    const tiled = tiledMode && !!(presetId && findSubPreset(presets, presetId)?.tileable);
+    // Each tile and each variant is a separate paid request
+    const requestCount = tiled ? await getTileCount(source).catch(() => 1) : variantCount;
+    if (tiled && requestCount > TILE_CONFIRM_THRESHOLD &&
+      !window.confirm(`Tiled mode will edit this image in ${requestCount} tiles, one request each. Continue?`)) return;
+    if (!confirmBudget(requestCount)) return;
+    const parentId = override ? override.parentId : current.parentId;
+    setError(null);
+    const signal = beginRun();
+    const calls: UsageRecord[] = [];
+
+    try {
+      const mimeType = override ? getMimeType(source) : current.mimeType;
+      const params = override ? override.params : getActiveParams();
+      const refs = override ? override.references : getActiveReferences();
+
+      const regionMask = !override && maskMode ? mask : null;
+      const editOptions: EditOptions = {
+        mask: regionMask ? await maskToBinary(regionMask) : undefined,
+        references: toEditReferences(refs ?? []),
+        signal,
+        onProgress: setProcessingStatus,
+        usage: calls
+      };
+      let images = tiled
+        ? [await requestTiled(source, mimeType, promptText, editOptions)]
+        : variantCount > 1
+          ? await requestVariants(source, mimeType, promptText, variantCount, editOptions)
+          : [await requestEdit(source, mimeType, promptText, editOptions)];
+      if (regionMask) {
+        images = await Promise.all(images.map(edited => compositeWithMask(source, edited, regionMask, maskFeather)));
       }
 
-      if (!foundImage) {
-        setError("AI completed but returned no image. Check if your prompt is too complex or violates safety guidelines.");
+      // Work that finished after a cancel is dropped
+      throwIfAborted(signal);
+
+      const details = {
+        source,
+        prompt: promptText,
+        presetId,
+        params,
+        references: refs,
+        parentId,
+        sourceName: (override ? override.sourceName : sourceName) ?? undefined,
+        usage: calls
+      };
+      if (!tiled && variantCount > 1) {
+        const batchId = Date.now().toString();
+        setVariantSet({ ...details, requested: variantCount, failed: variantCount - images.length, variants: images.map((image, i) => ({ id: `${batchId}-${i}`, image })) });
+        return;
       }
+      await commitNode(createNode(details, images[0]));
     } catch (err: any) {
-      console.error("AI processing error:", err);
-      const msg = err.message || "";
-      
-      // Handle "Requested entity was not found" by resetting key selection
-      if (msg.includes("403") || msg.includes("billing") || msg.includes("quota")) {
-        setError("Billing Required: The selected Google Project must have an active billing account linked.");
-      } else if (msg.includes("404") || msg.includes("Requested entity was not found")) {
-        setError("Project Error: Please click 'Connect' again and ensure you select a valid Project from Google AI Studio.");
-        setIsLoggedIn(false);
-      } else {
-        setError("Editing failed. This usually happens if the selected Google Project isn't fully set up in AI Studio.");
+      if (isCancelledError(err)) return;
+      retryRef.current = () => processImage(override);
+      setError(handleEditError(err));
+    } finally {
+      endRun();
+    }
+  };
+
+  const handleBatchRun = () => {
+    const prompt = getActivePrompt();
+    if (requirePrompt(prompt) && confirmBudget(batch.jobs.filter(job => job.status !== 'done').length)) batch.run(prompt);
+  };
+
+  // Analyzes whatever EDIT IMAGE would edit. When that's a history result, the entry is tagged too.
+  const handleAnalyze = async () => {
+    const current = getEditSource();
+    if (!current.source || !confirmBudget(1, 'analyze')) return;
+    setError(null);
+    const signal = beginRun();
+    setProcessingStatus('Analyzing the photo');
+    const calls: UsageRecord[] = [];
+    try {
+      const result = await requestAnalysis(current.source, current.mimeType, signal, calls);
+      throwIfAborted(signal);
+      setAnalysis({ result, source: current.source, parentId: current.parentId });
+      if (current.continuing && currentNodeId) await tagHistoryItem(currentNodeId, result, calls);
+    } catch (err: any) {
+      if (isCancelledError(err)) return;
+      retryRef.current = handleAnalyze;
+      setError(handleEditError(err));
+    } finally {
+      endRun();
+    }
+  };
+
+  // One-click suggestion: selects the preset with its default parameters and edits the analyzed image
+  const handleApplySuggestion = (presetId: string) => {
+    const sub = findSubPreset(presets, presetId);
+    if (!sub || !analysis) return;
+    const params = getParamValues(sub);
+    selectSubPreset(sub);
+    processImage({
+      source: analysis.source,
+      prompt: resolvePrompt(sub, params),
+      presetId,
+      params,
+      references: getActiveReferences(),
+      parentId: analysis.parentId,
+      sourceName: sourceName ?? undefined
+    });
+  };
+
+  // Runs each recipe step on the previous step's output. Stops at the first failure;
+  // passing the failed run back in resumes from that step.
+  const runRecipe = async (recipe: Recipe, resume?: RecipeRun) => {
+    const current = getEditSource();
+    if (!resume && !current.source) return;
+
+    const run: RecipeRun = resume ?? {
+      recipe,
+      source: current.source as string,
+      parentId: current.parentId,
+      steps: recipe.steps.map(step => ({ status: 'pending', prompt: getStepPrompt(presets, step) }))
+    };
+    const steps = [...run.steps];
+    const update = () => setRecipeRun({ ...run, steps: [...steps] });
+
+    // A step whose preset was deleted (or never got a prompt) would send an empty prompt, so nothing runs
+    const invalid = steps.flatMap((step, i) => {
+      if (step.status === 'done' || step.prompt.trim()) return [];
+      const { presetId } = recipe.steps[i];
+      return [{ i, error: presetId && !findSubPreset(presets, presetId) ? `Preset "${presetId}" no longer exists.` : 'This step has no prompt.' }];
+    });
+    if (invalid.length) {
+      for (const { i, error } of invalid) steps[i] = { ...steps[i], status: 'failed', error };
+      update();
+      setError(createNotice(`Edit the recipe to fix step ${invalid.map(({ i }) => i + 1).join(', ')}.`, 'Recipe Has Invalid Steps'));
+      return;
+    }
+    if (!confirmBudget(steps.filter(step => step.status !== 'done').length)) return;
+
+    const firstPending = steps.findIndex(step => step.status !== 'done');
+    const lastDone = firstPending > 0 ? steps[firstPending - 1] : undefined;
+    let source = lastDone?.image ?? run.source;
+    let parentId = lastDone ? lastDone.nodeId : run.parentId;
+    let stepIndex = getNextStep(history, parentId);
+
+    setError(null);
+    const signal = beginRun();
+    try {
+      for (let i = firstPending; i >= 0 && i < steps.length; i++) {
+        steps[i] = { ...steps[i], status: 'running', error: undefined };
+        update();
+        try {
+          const calls: UsageRecord[] = [];
+          const newImage = await requestEdit(source, getMimeType(source), steps[i].prompt, { signal, onProgress: setProcessingStatus, usage: calls });
+          throwIfAborted(signal);
+
+          const node: HistoryItem = {
+            id: Date.now().toString(),
+            original: source,
+            edited: newImage,
+            prompt: steps[i].prompt,
+            presetId: recipe.steps[i].presetId,
+            params: getStepParams(presets, recipe.steps[i]),
+            sourceName: sourceName ?? undefined,
+            usage: calls,
+            parentId,
+            step: stepIndex,
+            timestamp: Date.now()
+          };
+          await commitNode(node);
+          steps[i] = { ...steps[i], status: 'done', image: newImage, nodeId: node.id };
+          update();
+
+          source = newImage;
+          parentId = node.id;
+          stepIndex++;
+        } catch (err: any) {
+          const notice = handleEditError(err);
+          steps[i] = { ...steps[i], status: 'failed', error: notice.message };
+          update();
+          if (isCancelledError(err)) return;
+          retryRef.current = () => runRecipe(recipe, { ...run, steps: [...steps] });
+          setError({ ...notice, title: `Recipe stopped at step ${i + 1}: ${notice.title}` });
+          return;
+        }
       }
     } finally {
-      setIsProcessing(false);
+      endRun();
     }
   };
 
@@ -190,11 +1060,21 @@ const App: React.FC = () => {
                 You must have a Paid Project selected to use Image Models
               </a>
             </div>
+
+            <button
+              onClick={() => {
+                handleProviderChange('mock');
+                setIsLoggedIn(true);
+              }}
+              className="text-xs text-gray-400 font-bold hover:text-gray-700 transition-colors"
+            >
+              Or work offline with the mock backend
+            </button>
           </div>
           
           {error && (
             <div className="p-4 bg-red-50 text-red-600 rounded-xl text-sm font-bold border border-red-100">
-              {error}
+              {error.message}
             </div>
           )}
         </div>
@@ -218,13 +1098,39 @@ const App: React.FC = () => {
               Switch Account
             </button>
           </div>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={handleSaveProject}
+              disabled={!image || isProcessing}
+              className="flex-1 text-[10px] font-black bg-gray-100 rounded-full py-2 hover:bg-gray-200 transition-colors disabled:opacity-40"
+            >
+              SAVE PROJECT
+            </button>
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              disabled={isProcessing}
+              className="flex-1 text-[10px] font-black bg-gray-100 rounded-full py-2 hover:bg-gray-200 transition-colors disabled:opacity-40"
+            >
+              OPEN PROJECT
+            </button>
+            <button
+              onClick={() => setShowUsage(true)}
+              className="flex-1 text-[10px] font-black bg-gray-100 rounded-full py-2 hover:bg-gray-200 transition-colors"
+            >
+              USAGE
+            </button>
+            <input ref={projectInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleOpenProject} />
+          </div>
         </div>
 
         <div className="flex-1 px-4 py-8 overflow-y-auto space-y-6">
           <section>
-            <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 px-2">Presets</h3>
+            <div className="flex items-center justify-between mb-4 px-2">
+              <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest">Presets</h3>
+              <button onClick={() => setShowPresetManager(true)} className="text-[10px] font-black text-blue-600 hover:text-blue-800">MANAGE</button>
+            </div>
             <div className="space-y-1">
-              {EDITING_PRESETS.map((category) => (
+              {presets.map((category) => (
                 <div key={category.id}>
                   <button
                     onClick={() => setExpandedCategoryId(expandedCategoryId === category.id ? null : category.id)}
@@ -244,20 +1150,21 @@ const App: React.FC = () => {
                   {expandedCategoryId === category.id && (
                     <div className="pl-4 pr-2 py-2 space-y-1 animate-in slide-in-from-top-2 duration-200">
                       {category.subPresets.map((sub) => (
-                        <button
-                          key={sub.id}
-                          onClick={() => {
-                            setSelectedSubPreset(sub);
-                            setCustomPrompt('');
-                          }}
-                          className={`w-full text-left p-3 rounded-xl text-xs font-semibold transition-all ${
-                            selectedSubPreset?.id === sub.id 
-                              ? 'bg-blue-600 text-white shadow-lg' 
-                              : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
-                          }`}
-                        >
-                          {sub.label}
-                        </button>
+                        <React.Fragment key={sub.id}>
+                          <button
+                            onClick={() => selectSubPreset(sub)}
+                            className={`w-full text-left p-3 rounded-xl text-xs font-semibold transition-all ${
+                              selectedSubPreset?.id === sub.id 
+                                ? 'bg-blue-600 text-white shadow-lg' 
+                                : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
+                            }`}
+                          >
+                            {sub.label}
+                          </button>
+                          {selectedSubPreset?.id === sub.id && sub.params?.length ? (
+                            <PresetParamsForm params={sub.params} values={presetParams} disabled={isProcessing} onChange={setPresetParams} />
+                          ) : null}
+                        </React.Fragment>
                       ))}
                     </div>
                   )}
@@ -266,6 +1173,22 @@ const App: React.FC = () => {
             </div>
           </section>
 
+          <section className="pt-4 border-t border-gray-200">
+            <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 px-2">Reference Images</h3>
+            <ReferencePanel references={references} disabled={isProcessing} onChange={setReferences} />
+          </section>
+
+          <section className="pt-4 border-t border-gray-200">
+            <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 px-2">Recipes</h3>
+            <RecipePanel
+              recipes={recipes}
+              presets={presets}
+              disabled={!image || isProcessing}
+              onRun={(recipe) => runRecipe(recipe)}
+              onChange={handleRecipesChange}
+            />
+          </section>
+
           <section className="pt-4 border-t border-gray-200">
             <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 px-2">Custom Command</h3>
             <textarea
@@ -280,30 +1203,134 @@ const App: React.FC = () => {
           </section>
         </div>
 
-        <div className="p-6 bg-white border-t border-gray-200">
-          <button
-            onClick={processImage}
-            disabled={!image || isProcessing}
-            className={`w-full py-5 rounded-2xl font-black text-sm tracking-wide shadow-xl flex items-center justify-center gap-3 transition-all active:scale-[0.97] ${
-              !image || isProcessing 
-                ? 'bg-gray-100 text-gray-400 cursor-not-allowed shadow-none' 
-                : 'bg-black text-white hover:bg-gray-900 hover:shadow-2xl'
-            }`}
-          >
-            {isProcessing ? (
-              <span className="flex items-center gap-2">
-                <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                AI Working...
+        <div className="p-6 bg-white border-t border-gray-200 space-y-4">
+          <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600">
+            Backend
+            <select
+              value={providerId}
+              disabled={isProcessing}
+              onChange={(e) => handleProviderChange(e.target.value as ImageEditProviderId)}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs outline-none focus:border-blue-500"
+            >
+              {IMAGE_EDIT_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600">
+            Variants per edit
+            <select
+              value={variantCount}
+              disabled={isProcessing}
+              onChange={(e) => handleVariantCountChange(Number(e.target.value))}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs outline-none focus:border-blue-500"
+            >
+              {VARIANT_COUNT_OPTIONS.map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600">
+            Max upload size
+            <select
+              value={maxEdge}
+              disabled={isProcessing}
+              onChange={(e) => handleMaxEdgeChange(Number(e.target.value))}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs outline-none focus:border-blue-500"
+            >
+              {MAX_EDGE_OPTIONS.map(edge => (
+                <option key={edge} value={edge}>{edge ? `${edge}px` : 'Full size'}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600">
+            Timeout
+            <select
+              value={editTimeout}
+              disabled={isProcessing}
+              onChange={(e) => handleEditTimeoutChange(Number(e.target.value))}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs outline-none focus:border-blue-500"
+            >
+              {EDIT_TIMEOUT_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds ? `${seconds}s` : 'None'}</option>
+              ))}
+            </select>
+          </label>
+          {selectedSubPreset?.tileable && !customPrompt && (
+            <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600 cursor-pointer" title="Edit large images in overlapping tiles at full resolution">
+              <span>
+                Tiled mode
+                {tiledMode && tileCount > 1 && <span className="ml-2 text-[10px] font-black text-gray-400">{tileCount} REQUESTS</span>}
               </span>
-            ) : 'EDIT IMAGE'}
-          </button>
+              <input
+                type="checkbox"
+                checked={tiledMode}
+                onChange={(e) => handleTiledModeChange(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+            </label>
+          )}
+          <label className={`flex items-center justify-between px-2 text-xs font-bold cursor-pointer ${editedImage ? 'text-gray-600' : 'text-gray-300'}`}>
+            Continue from result
+            <input
+              type="checkbox"
+              checked={continueFromResult}
+              onChange={(e) => setContinueFromResult(e.target.checked)}
+              className="w-4 h-4 accent-blue-600"
+            />
+          </label>
+          <label className="flex items-center justify-between px-2 text-xs font-bold text-gray-600 cursor-pointer" title="Caption and tag every new result in the background so history can be searched">
+            Auto-tag history
+            <input
+              type="checkbox"
+              checked={autoTag}
+              onChange={(e) => handleAutoTagChange(e.target.checked)}
+              className="w-4 h-4 accent-blue-600"
+            />
+          </label>
+          {budget && (
+            <button
+              onClick={() => setShowUsage(true)}
+              className={`w-full text-left px-2 text-[11px] font-bold ${budgetSpent >= budget.amount ? 'text-red-500' : budgetSpent >= budget.amount * 0.8 ? 'text-yellow-600' : 'text-gray-400'}`}
+            >
+              Est. {formatCost(budgetSpent)} of {formatCost(budget.amount)} budget {budget.period === 'day' ? 'today' : 'this month'}
+            </button>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={handleAnalyze}
+              disabled={!image || isProcessing}
+              className="px-5 rounded-2xl font-black text-sm tracking-wide border-2 border-gray-200 bg-white text-gray-700 hover:border-black transition-all active:scale-[0.97] disabled:text-gray-300 disabled:border-gray-100 disabled:cursor-not-allowed"
+              title="Describe the photo, list its problems and suggest presets"
+            >
+              ANALYZE
+            </button>
+            <button
+              onClick={() => processImage()}
+              disabled={!image || isProcessing}
+              className={`flex-1 py-5 rounded-2xl font-black text-sm tracking-wide shadow-xl flex items-center justify-center gap-3 transition-all active:scale-[0.97] ${
+                !image || isProcessing 
+                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed shadow-none' 
+                  : 'bg-black text-white hover:bg-gray-900 hover:shadow-2xl'
+              }`}
+            >
+              {isProcessing ? (
+                <span className="flex items-center gap-2">
+                  <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  AI Working...
+                </span>
+              ) : 'EDIT IMAGE'}
+            </button>
+          </div>
         </div>
       </aside>
 
-      <main className="flex-1 p-8 md:p-12 overflow-y-auto bg-white">
+      <main className="flex-1 p-8 md:p-12 overflow-y-auto bg-white" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+        <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImageUpload} />
+        <input ref={folderInputRef} type="file" {...{ webkitdirectory: '' }} className="hidden" onChange={handleImageUpload} />
         <div className="max-w-7xl mx-auto space-y-12">
           {error && (
             <div className="bg-red-50 border-2 border-red-100 text-red-700 p-6 rounded-[2.5rem] animate-in slide-in-from-top-4 duration-300 shadow-sm">
@@ -311,11 +1338,25 @@ const App: React.FC = () => {
                 <div className="flex items-start gap-4">
                   <span className="bg-red-500 text-white w-6 h-6 shrink-0 flex items-center justify-center rounded-full text-[10px] mt-1 font-black">!</span>
                   <div>
-                    <p className="font-black text-lg leading-tight mb-2">Action Required</p>
-                    <p className="font-medium text-sm leading-relaxed opacity-80">{error}</p>
-                    <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="inline-block mt-4 text-xs font-black underline hover:opacity-70">
-                      VIEW BILLING DOCS
-                    </a>
+                    <p className="font-black text-lg leading-tight mb-2">{error.title}</p>
+                    <p className="font-medium text-sm leading-relaxed opacity-80">{error.message}</p>
+                    {error.suggestion && <p className="font-bold text-sm leading-relaxed mt-1">{error.suggestion}</p>}
+                    {error.details && <p className="font-mono text-[10px] leading-relaxed mt-2 opacity-60 break-words">{error.details}</p>}
+                    {error.action === 'billing' && (
+                      <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="inline-block mt-4 text-xs font-black underline hover:opacity-70">
+                        VIEW BILLING DOCS
+                      </a>
+                    )}
+                    {error.action === 'reconnect' && (
+                      <button onClick={() => { setError(null); setIsLoggedIn(false); }} className="inline-block mt-4 text-xs font-black underline hover:opacity-70">
+                        RECONNECT
+                      </button>
+                    )}
+                    {error.action === 'retry' && retryRef.current && (
+                      <button onClick={() => retryRef.current?.()} disabled={isProcessing} className="inline-block mt-4 text-xs font-black underline hover:opacity-70">
+                        RETRY
+                      </button>
+                    )}
                   </div>
                 </div>
                 <button onClick={() => setError(null)} className="font-black text-[10px] hover:opacity-50 px-2 py-1 bg-red-100 rounded-lg">DISMISS</button>
@@ -336,46 +1377,191 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-3xl font-black text-gray-900 z-10 tracking-tight">Select Photo</h2>
               <p className="text-gray-400 mt-4 text-lg font-medium z-10">Upload an image to start editing with AI</p>
-              <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+              <p className="text-gray-300 mt-2 text-sm font-bold z-10">
+                Drop several photos or{' '}
+                <button onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }} className="text-blue-500 hover:underline">a whole folder</button>
+                {' '}to batch edit
+              </p>
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowCamera(true); }}
+                className="mt-8 z-10 text-[10px] text-blue-600 font-black bg-white px-6 py-3 rounded-full shadow-lg hover:bg-blue-50 transition-colors"
+              >
+                USE CAMERA
+              </button>
             </div>
           ) : (
-            <div className="grid grid-cols-1 xl:grid-cols-2 gap-12">
-              <div className="space-y-6">
-                <div className="flex items-center justify-between px-4">
-                  <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Source</h3>
-                  <button onClick={() => fileInputRef.current?.click()} className="text-[10px] text-blue-600 font-black bg-blue-50 px-4 py-2 rounded-full hover:bg-blue-100 transition-colors">REPLACE</button>
+            <div className="space-y-8">
+              {chain.length > 0 && (
+                <div className="flex items-center gap-4">
+                  <div className="flex gap-2 pl-4">
+                    <button onClick={handleUndo} disabled={isProcessing || currentIndex < 0} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors disabled:opacity-30">UNDO</button>
+                    <button onClick={handleRedo} disabled={isProcessing || currentIndex >= chain.length - 1} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors disabled:opacity-30">REDO</button>
+                  </div>
+                  <EditChain
+                    source={image}
+                    chain={chain}
+                    currentId={currentNodeId}
+                    onSelectRoot={showChainRoot}
+                    onSelect={showNode}
+                  />
                 </div>
-                <div className="aspect-square bg-gray-50 rounded-[4rem] overflow-hidden shadow-inner border border-gray-100 p-8 flex items-center justify-center">
-                  <img src={image} alt="Original" className="max-w-full max-h-full object-contain rounded-3xl" />
+              )}
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-12">
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between px-4">
+                    <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Source</h3>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setMaskMode(!maskMode)}
+                        className={`text-[10px] font-black px-4 py-2 rounded-full transition-colors ${maskMode ? 'bg-blue-600 text-white' : 'text-blue-600 bg-blue-50 hover:bg-blue-100'}`}
+                      >
+                        {maskMode ? (mask ? 'MASK ON' : 'PAINT MASK') : 'MASK'}
+                      </button>
+                      <button onClick={() => setShowCamera(true)} className="text-[10px] text-blue-600 font-black bg-blue-50 px-4 py-2 rounded-full hover:bg-blue-100 transition-colors">CAMERA</button>
+                      <button onClick={() => fileInputRef.current?.click()} className="text-[10px] text-blue-600 font-black bg-blue-50 px-4 py-2 rounded-full hover:bg-blue-100 transition-colors">REPLACE</button>
+                    </div>
+                  </div>
+                  <div className="aspect-square bg-gray-50 rounded-[4rem] overflow-hidden shadow-inner border border-gray-100 p-8 flex items-center justify-center">
+                    {maskMode ? (
+                      <MaskCanvas key={image} image={image} mask={mask} feather={maskFeather} onFeatherChange={setMaskFeather} onChange={setMask} />
+                    ) : (
+                      <img src={image} alt="Original" className="max-w-full max-h-full object-contain rounded-3xl" />
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              <div className="space-y-6">
-                <div className="flex items-center justify-between px-4">
-                  <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Preview</h3>
-                  {editedImage && (
-                    <a href={editedImage} download="gemini-edit.png" className="text-[10px] bg-black text-white px-6 py-2 rounded-full font-black hover:bg-gray-800 transition-all active:scale-95 shadow-lg">DOWNLOAD</a>
-                  )}
-                </div>
-                <div className="aspect-square bg-gray-50 rounded-[4rem] overflow-hidden shadow-2xl border border-gray-100 p-8 flex items-center justify-center relative">
-                  {isProcessing ? (
-                    <div className="absolute inset-0 z-10 bg-white/80 backdrop-blur-xl flex flex-col items-center justify-center">
-                      <div className="w-20 h-20 border-8 border-gray-100 rounded-full border-t-black animate-spin mb-6 shadow-xl" />
-                      <p className="font-black text-gray-900 text-2xl tracking-tight">Processing...</p>
-                      <p className="text-xs text-gray-400 font-bold mt-2 uppercase tracking-widest animate-pulse">Running Gemini Vision</p>
-                    </div>
-                  ) : editedImage ? (
-                    <img src={editedImage} alt="Edited" className="max-w-full max-h-full object-contain rounded-3xl animate-in zoom-in-95 fade-in duration-700" />
-                  ) : (
-                    <div className="text-center opacity-30 px-12">
-                      <div className="text-7xl mb-8">💎</div>
-                      <p className="text-xl font-black text-gray-800 leading-tight">Choose a preset or write a command below.</p>
-                    </div>
-                  )}
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between px-4">
+                    <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Preview</h3>
+                    {editedImage && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setComparePair({ before: image, after: editedImage, beforeLabel: 'Source', afterLabel: 'Preview' })}
+                          className="text-[10px] text-blue-600 font-black bg-blue-50 px-4 py-2 rounded-full hover:bg-blue-100 transition-colors"
+                        >
+                          COMPARE
+                        </button>
+                        <button onClick={() => setShowExport(true)} className="text-[10px] bg-black text-white px-6 py-2 rounded-full font-black hover:bg-gray-800 transition-all active:scale-95 shadow-lg">DOWNLOAD</button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="aspect-square bg-gray-50 rounded-[4rem] overflow-hidden shadow-2xl border border-gray-100 p-8 flex items-center justify-center relative">
+                    {isProcessing ? (
+                      <ProcessingOverlay startedAt={runStartedAt} status={processingStatus} onCancel={handleCancel} />
+                    ) : editedImage ? (
+                      <img src={editedImage} alt="Edited" className="max-w-full max-h-full object-contain rounded-3xl animate-in zoom-in-95 fade-in duration-700" />
+                    ) : (
+                      <div className="text-center opacity-30 px-12">
+                        <div className="text-7xl mb-8">💎</div>
+                        <p className="text-xl font-black text-gray-800 leading-tight">Choose a preset or write a command below.</p>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
           )}
+
+          {analysis && (
+            <AnalysisPanel
+              analysis={analysis.result}
+              presets={presets}
+              disabled={isProcessing}
+              onApply={handleApplySuggestion}
+              onClose={() => setAnalysis(null)}
+            />
+          )}
+
+          {variantSet && (
+            <VariantPicker
+              set={variantSet}
+              onPick={handlePickVariant}
+              onToggleFavorite={(variant) => updateVariants(variants => variants.map(v => (v.id === variant.id ? { ...v, favorite: !v.favorite } : v)))}
+              onDiscard={(variant) => updateVariants(variants => variants.filter(v => v.id !== variant.id))}
+              onCompare={(variant) => setComparePair({ before: variantSet.source, after: variant.image, beforeLabel: 'Source', afterLabel: 'Variant' })}
+              onClose={() => setVariantSet(null)}
+            />
+          )}
+
+          {batch.jobs.length > 0 && (
+            <BatchPanel
+              jobs={batch.jobs}
+              concurrency={batch.concurrency}
+              isRunning={batch.isRunning}
+              canRun={!isProcessing}
+              onConcurrencyChange={batch.setConcurrency}
+              onRun={handleBatchRun}
+              onStop={batch.stop}
+              onRemove={batch.removeJob}
+              onClear={batch.clear}
+              onDownload={batch.downloadZip}
+            />
+          )}
+
+          {recipeRun && (
+            <RecipeRunView
+              run={recipeRun}
+              isRunning={isProcessing}
+              onResume={() => runRecipe(recipeRun.recipe, recipeRun)}
+              onClose={() => setRecipeRun(null)}
+            />
+          )}
+
+          {showExport && image && editedImage && (
+            <ExportDialog
+              original={chain[0]?.original ?? image}
+              edited={editedImage}
+              sourceName={sourceName}
+              presetId={chain[currentIndex]?.presetId}
+              onClose={() => setShowExport(false)}
+            />
+          )}
+
+          <HistoryPanel
+            items={history}
+            prices={priceTable}
+            limit={historyLimit}
+            disabled={isProcessing}
+            onLimitChange={handleHistoryLimitChange}
+            onRestore={handleRestore}
+            onRerun={handleRerun}
+            onDelete={handleDeleteHistoryItem}
+            onCompare={handleCompareHistory}
+            onUseAlternate={handleUseAlternate}
+          />
+
+          {showCamera && (
+            <CameraCapture
+              autoApply={autoApplyCapture}
+              presetLabel={customPrompt ? 'Custom Command' : selectedSubPreset?.label ?? 'Enhance'}
+              onAutoApplyChange={setAutoApplyCapture}
+              onCapture={handleCapture}
+              onClose={() => setShowCamera(false)}
+            />
+          )}
+
+          {showUsage && (
+            <UsageDashboard
+              records={usage}
+              prices={priceTable}
+              budget={budget}
+              onPricesChange={handlePriceTableChange}
+              onBudgetChange={handleBudgetChange}
+              onClear={handleClearUsage}
+              onClose={() => setShowUsage(false)}
+            />
+          )}
+
+          {showPresetManager && (
+            <PresetManager
+              builtIn={EDITING_PRESETS}
+              custom={customPresets}
+              onChange={handleCustomPresetsChange}
+              onClose={() => setShowPresetManager(false)}
+            />
+          )}
+
+          {comparePair && <CompareViewer pair={comparePair} onClose={() => setComparePair(null)} />}
         </div>
       </main>
     </div>
@@ -0,0 +1,90 @@
+import React from 'react';
+import { EditingPreset } from '../types';
+import { AnalysisIssue, ImageAnalysis } from '../services/imageEdit';
+import { findSubPreset } from '../utils/presets';
+
+interface AnalysisPanelProps {
+  analysis: ImageAnalysis;
+  presets: EditingPreset[];
+  disabled: boolean;
+  onApply: (presetId: string) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<AnalysisIssue['severity'], string> = {
+  low: 'bg-gray-100 text-gray-500',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-red-100 text-red-600'
+};
+
+const ISSUE_LABELS: Record<AnalysisIssue['kind'], string> = {
+  noise: 'Noise',
+  scratches: 'Scratches',
+  'faded-color': 'Faded color',
+  exposure: 'Exposure',
+  blur: 'Blur',
+  other: 'Other'
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, presets, disabled, onApply, onClose }) => (
+  <section className="bg-gray-50 rounded-[2.5rem] border border-gray-100 p-6 space-y-5">
+    <div className="flex items-start justify-between gap-4 px-2">
+      <div className="space-y-2">
+        <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Analysis</h3>
+        {analysis.caption && <p className="text-sm font-semibold text-gray-700">{analysis.caption}</p>}
+        {analysis.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {analysis.tags.map(tag => (
+              <span key={tag} className="text-[10px] font-bold bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">#{tag}</span>
+            ))}
+          </div>
+        )}
+      </div>
+      <button onClick={onClose} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors">CLOSE</button>
+    </div>
+
+    <div className="grid md:grid-cols-2 gap-4">
+      <div className="bg-white rounded-[2rem] border border-gray-100 p-5 space-y-3">
+        <h4 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Issues found</h4>
+        {analysis.issues.length === 0 ? (
+          <p className="text-xs font-semibold text-gray-300">No obvious problems.</p>
+        ) : (
+          analysis.issues.map((issue, i) => (
+            <div key={i} className="flex items-start gap-2">
+              <span className={`shrink-0 text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${SEVERITY_STYLES[issue.severity]}`}>
+                {ISSUE_LABELS[issue.kind]}
+              </span>
+              <p className="text-xs font-semibold text-gray-600">{issue.description}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="bg-white rounded-[2rem] border border-gray-100 p-5 space-y-3">
+        <h4 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Suggested edits</h4>
+        {analysis.suggestions.length === 0 ? (
+          <p className="text-xs font-semibold text-gray-300">No preset suggestions.</p>
+        ) : (
+          analysis.suggestions.map((suggestion, i) => (
+            <div key={suggestion.presetId} className="flex items-center gap-3">
+              <span className="shrink-0 w-5 text-[10px] font-black text-gray-300">#{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-black text-gray-800">{findSubPreset(presets, suggestion.presetId)?.label ?? suggestion.presetId}</p>
+                <p className="text-[11px] font-semibold text-gray-500">{suggestion.reason}</p>
+              </div>
+              <button
+                onClick={() => onApply(suggestion.presetId)}
+                disabled={disabled}
+                className="shrink-0 text-[10px] font-black bg-black text-white rounded-full px-4 py-2 hover:bg-gray-800 transition-colors disabled:bg-gray-200 disabled:text-gray-400"
+              >
+                APPLY
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  </section>
+);
+
+export default AnalysisPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { BatchJob, BatchJobStatus } from '../types';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  isRunning: boolean;
+  canRun: boolean;
+  onConcurrencyChange: (limit: number) => void;
+  onRun: () => void;
+  onStop: () => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onDownload: () => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  pending: 'bg-gray-100 text-gray-400',
+  running: 'bg-blue-100 text-blue-600 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-600'
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ jobs, concurrency, isRunning, canRun, onConcurrencyChange, onRun, onStop, onRemove, onClear, onDownload }) => {
+  const count = (status: BatchJobStatus) => jobs.filter(job => job.status === status).length;
+  const done = count('done');
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-4">
+        <div className="flex items-center gap-4">
+          <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Batch ({jobs.length})</h3>
+          <span className="text-[10px] font-black text-gray-300 uppercase tracking-widest">
+            {done} done · {count('failed')} failed · {count('pending') + count('running')} queued
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+            Parallel
+            <select
+              value={concurrency}
+              disabled={isRunning}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-gray-700 outline-none focus:border-blue-500"
+            >
+              {CONCURRENCY_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          {isRunning ? (
+            <button onClick={onStop} className="text-[10px] font-black bg-red-50 text-red-600 px-5 py-2 rounded-full hover:bg-red-100 transition-colors">
+              STOP
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={!canRun || done === jobs.length}
+              className="text-[10px] font-black bg-black text-white px-5 py-2 rounded-full hover:bg-gray-800 transition-colors disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              RUN BATCH
+            </button>
+          )}
+          <button
+            onClick={onDownload}
+            disabled={!done || isRunning}
+            className="text-[10px] font-black text-blue-600 bg-blue-50 px-5 py-2 rounded-full hover:bg-blue-100 transition-colors disabled:opacity-40"
+          >
+            DOWNLOAD ZIP
+          </button>
+          <button onClick={onClear} disabled={isRunning} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 transition-colors disabled:opacity-40">CLEAR</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-4">
+        {jobs.map(job => (
+          <div key={job.id} className="bg-gray-50 rounded-[2rem] border border-gray-100 overflow-hidden shadow-sm">
+            <div className="aspect-square bg-white flex items-center justify-center overflow-hidden">
+              <img src={job.result ?? job.source} alt={job.path} className={`max-w-full max-h-full object-contain ${job.result ? '' : 'opacity-50'}`} />
+            </div>
+            <div className="p-3 space-y-2">
+              <p className="text-[10px] font-bold text-gray-600 truncate" title={job.path}>{job.path}</p>
+              <div className="flex items-center justify-between">
+                <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                {!isRunning && (
+                  <button onClick={() => onRemove(job.id)} className="text-[10px] font-black text-gray-400 hover:text-red-500 transition-colors" title="Remove">✕</button>
+                )}
+              </div>
+              {job.error && <p className="text-[10px] font-semibold text-red-500 line-clamp-2" title={job.error}>{job.error}</p>}
+              {job.attempts > 1 && <p className="text-[10px] font-semibold text-gray-300">Attempt {job.attempts}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+type FacingMode = 'user' | 'environment';
+
+interface CameraCaptureProps {
+  autoApply: boolean;
+  presetLabel: string;
+  onAutoApplyChange: (autoApply: boolean) => void;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const captureName = (date: Date) =>
+  `camera-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.jpg`;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ autoApply, presetLabel, onAutoApplyChange, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [error, setError] = useState<string | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const start = async () => {
+      stopStream();
+      setError(null);
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: deviceId
+            ? { deviceId: { exact: deviceId }, width: { ideal: 3840 }, height: { ideal: 2160 } }
+            : { facingMode, width: { ideal: 3840 }, height: { ideal: 2160 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+        // Device labels are only exposed once permission has been granted
+        const all = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setDevices(all.filter(device => device.kind === 'videoinput'));
+      } catch (err: any) {
+        console.error("Camera error:", err);
+        if (!cancelled) {
+          setError(err?.name === 'NotAllowedError'
+            ? "Camera access was denied. Allow it in your browser's site settings."
+            : "No camera could be started on this device.");
+        }
+      }
+    };
+    start();
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [deviceId, facingMode]);
+
+  const activeTrack = streamRef.current?.getVideoTracks()[0];
+  const activeFacing = (activeTrack?.getSettings().facingMode as FacingMode | undefined) ?? facingMode;
+
+  const switchFacing = () => {
+    setDeviceId(null);
+    setFacingMode(activeFacing === 'user' ? 'environment' : 'user');
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], captureName(new Date()), { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.95);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 w-full max-w-3xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-black text-xl tracking-tight">Camera</h3>
+          <div className="flex items-center gap-2">
+            {devices.length > 1 && (
+              <select
+                value={deviceId ?? activeTrack?.getSettings().deviceId ?? ''}
+                onChange={(e) => setDeviceId(e.target.value)}
+                className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs font-semibold outline-none focus:border-blue-500 max-w-[14rem]"
+              >
+                {devices.map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${i + 1}`}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={switchFacing} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors">
+              {activeFacing === 'user' ? 'USE BACK' : 'USE FRONT'}
+            </button>
+            <button onClick={onClose} className="text-[10px] font-black text-gray-400 hover:text-gray-900 px-2">CLOSE</button>
+          </div>
+        </div>
+
+        <div className="aspect-video bg-black rounded-[2rem] overflow-hidden flex items-center justify-center">
+          {error ? (
+            <p className="text-white/70 font-bold text-sm px-8 text-center">{error}</p>
+          ) : (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={`w-full h-full object-contain ${activeFacing === 'user' ? '-scale-x-100' : ''}`}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={autoApply} onChange={(e) => onAutoApplyChange(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+            Auto-apply “{presetLabel}” after capture
+          </label>
+          <button
+            onClick={capture}
+            disabled={!!error}
+            className="w-16 h-16 rounded-full bg-black border-4 border-gray-200 hover:scale-105 active:scale-95 transition-transform disabled:opacity-30"
+            title="Capture"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparePair } from '../types';
+import { computeDiff, DiffResult } from '../utils/diff';
+import { loadImage } from '../utils/image';
+
+type CompareMode = 'split' | 'side' | 'flicker' | 'diff';
+
+interface CompareViewerProps {
+  pair: ComparePair;
+  onClose: () => void;
+}
+
+const MODES: { id: CompareMode; label: string }[] = [
+  { id: 'split', label: 'SPLIT' },
+  { id: 'side', label: 'SIDE BY SIDE' },
+  { id: 'flicker', label: 'FLICKER' },
+  { id: 'diff', label: 'DIFFERENCE' }
+];
+
+const MAX_ZOOM = 16;
+const FLICKER_INTERVAL_MS = 600;
+const SIDE_GAP = 16;
+
+// Both images share one zoom/pan transform, so every view stays pixel-aligned.
+// Zoom is in image pixels per screen pixel: 1 means 1:1.
+const CompareViewer: React.FC<CompareViewerProps> = ({ pair, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(50);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+  const [imageSize, setImageSize] = useState({ width: 1, height: 1 });
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [flickerAfter, setFlickerAfter] = useState(false);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const dragStart = useRef<{ x: number; y: number; pan: { x: number; y: number } } | null>(null);
+
+  // Results for a pair that was replaced or closed in the meantime are ignored
+  useEffect(() => {
+    let cancelled = false;
+    setLoadFailed(false);
+    setDiff(null);
+    loadImage(pair.before)
+      .then(img => !cancelled && setImageSize({ width: img.naturalWidth, height: img.naturalHeight }))
+      .catch(err => {
+        console.error("Failed to load comparison image:", err);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pair.before, pair.after]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setContainer({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'flicker') return;
+    const timer = setInterval(() => setFlickerAfter(prev => !prev), FLICKER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || diff || loadFailed) return;
+    let cancelled = false;
+    computeDiff(pair.before, pair.after)
+      .then(result => !cancelled && setDiff(result))
+      .catch(err => console.error("Failed to compute difference:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, diff, loadFailed, pair.before, pair.after]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const viewport = {
+    width: mode === 'side' ? (container.width - SIDE_GAP) / 2 : container.width,
+    height: container.height
+  };
+  const fitScale = Math.min(viewport.width / imageSize.width, viewport.height / imageSize.height) || 1;
+  const scale = zoom ?? fitScale;
+
+  const zoomTo = (next: number | null, anchor?: { x: number; y: number }) => {
+    if (next === null) {
+      setZoom(null);
+      setPan({ x: 0, y: 0 });
+      return;
+    }
+    const clamped = Math.min(MAX_ZOOM, Math.max(fitScale / 2, next));
+    // Keep the image point under the anchor (relative to the viewport centre) in place
+    const c = anchor ?? { x: 0, y: 0 };
+    setPan(prev => ({
+      x: c.x - ((c.x - prev.x) / scale) * clamped,
+      y: c.y - ((c.y - prev.y) / scale) * clamped
+    }));
+    setZoom(clamped);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const anchor = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+    zoomTo(scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15), anchor);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY, pan };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    if (zoom === null) setZoom(scale);
+    setPan({ x: start.pan.x + e.clientX - start.x, y: start.pan.y + e.clientY - start.y });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    if (e.type === 'pointermove' && !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const renderImage = (src: string, alt: string, extraClass = '') => (
+    <img
+      src={src}
+      alt={alt}
+      draggable={false}
+      className={`absolute left-1/2 top-1/2 max-w-none select-none ${extraClass}`}
+      style={{
+        width: imageSize.width,
+        height: imageSize.height,
+        transform: `translate(-50%, -50%) translate(${pan.x}px, ${pan.y}px) scale(${scale})`,
+        imageRendering: scale >= 2 ? 'pixelated' : 'auto'
+      }}
+    />
+  );
+
+  const label = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-4 ${side === 'left' ? 'left-4' : 'right-4'} z-10 text-[10px] font-black uppercase tracking-widest bg-black/60 text-white px-3 py-1 rounded-full pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  const viewportProps = {
+    onWheel: handleWheel,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    className: 'relative overflow-hidden bg-[repeating-conic-gradient(#f3f4f6_0%_25%,#fff_0%_50%)] bg-[length:24px_24px] rounded-[2rem] cursor-grab active:cursor-grabbing touch-none'
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-white flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-8 py-4 border-b border-gray-100">
+        <div className="flex gap-2">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`text-[10px] font-black px-4 py-2 rounded-full transition-colors ${mode === m.id ? 'bg-black text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoomTo(scale / 1.5)} className="text-xs font-black bg-gray-100 w-8 h-8 rounded-full hover:bg-gray-200">−</button>
+          <span className="text-[10px] font-black text-gray-500 w-12 text-center">{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomTo(scale * 1.5)} className="text-xs font-black bg-gray-100 w-8 h-8 rounded-full hover:bg-gray-200">+</button>
+          <button onClick={() => zoomTo(null)} className={`text-[10px] font-black px-3 py-2 rounded-full ${zoom === null ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}>FIT</button>
+          <button onClick={() => zoomTo(1)} className={`text-[10px] font-black px-3 py-2 rounded-full ${zoom === 1 ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}>1:1</button>
+          <button onClick={() => zoomTo(2)} className={`text-[10px] font-black px-3 py-2 rounded-full ${zoom === 2 ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}>2:1</button>
+          <button onClick={onClose} className="text-[10px] font-black text-gray-400 hover:text-gray-900 px-4">CLOSE</button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className={`flex-1 min-h-0 m-8 ${mode === 'side' ? 'grid grid-cols-2' : 'grid'}`} style={{ gap: SIDE_GAP }}>
+        {loadFailed ? (
+          <p className="text-sm font-bold text-gray-300 text-center self-center">This image could not be loaded, so it can't be compared.</p>
+        ) : mode === 'side' ? (
+          <>
+            <div {...viewportProps}>
+              {renderImage(pair.before, pair.beforeLabel)}
+              {label(pair.beforeLabel, 'left')}
+            </div>
+            <div {...viewportProps}>
+              {renderImage(pair.after, pair.afterLabel)}
+              {label(pair.afterLabel, 'right')}
+            </div>
+          </>
+        ) : (
+          <div {...viewportProps}>
+            {mode === 'split' && (
+              <>
+                {renderImage(pair.before, pair.beforeLabel)}
+                <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+                  {renderImage(pair.after, pair.afterLabel)}
+                </div>
+                <div
+                  onPointerDown={handleSplitDrag}
+                  onPointerMove={handleSplitDrag}
+                  className="absolute top-0 bottom-0 z-10 w-8 -ml-4 cursor-ew-resize flex justify-center"
+                  style={{ left: `${split}%` }}
+                >
+                  <div className="w-1 h-full bg-white shadow-[0_0_8px_rgba(0,0,0,0.4)]" />
+                  <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-[10px] font-black">⇔</div>
+                </div>
+                {label(pair.beforeLabel, 'left')}
+                {label(pair.afterLabel, 'right')}
+              </>
+            )}
+            {mode === 'flicker' && (
+              <>
+                {renderImage(flickerAfter ? pair.after : pair.before, flickerAfter ? pair.afterLabel : pair.beforeLabel)}
+                {label(flickerAfter ? pair.afterLabel : pair.beforeLabel, 'left')}
+              </>
+            )}
+            {mode === 'diff' && (
+              <>
+                {renderImage(pair.before, pair.beforeLabel, 'opacity-30 grayscale')}
+                {diff && renderImage(diff.heatmap, 'Difference')}
+                {label(diff ? `${(diff.changedRatio * 100).toFixed(1)}% of pixels changed` : 'Computing…', 'left')}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+
+interface EditChainProps {
+  source: string;
+  chain: HistoryItem[];
+  currentId: string | null;
+  onSelectRoot: () => void;
+  onSelect: (item: HistoryItem) => void;
+}
+
+// Breadcrumb of every version from the first upload to the current result
+const EditChain: React.FC<EditChainProps> = ({ source, chain, currentId, onSelectRoot, onSelect }) => {
+  const thumbClass = (active: boolean) =>
+    `w-16 h-16 shrink-0 rounded-2xl overflow-hidden border-2 bg-gray-50 flex items-center justify-center transition-all ${
+      active ? 'border-blue-600 shadow-lg' : 'border-transparent opacity-60 hover:opacity-100'
+    }`;
+
+  return (
+    <div className="flex items-center gap-3 overflow-x-auto px-4 pb-2">
+      <button onClick={onSelectRoot} className={thumbClass(currentId === null)} title="Original upload">
+        <img src={chain[0]?.original ?? source} alt="Original" className="max-w-full max-h-full object-contain" />
+      </button>
+      {chain.map(node => (
+        <React.Fragment key={node.id}>
+          <span className="text-gray-300 font-black text-xs">→</span>
+          <button onClick={() => onSelect(node)} className={thumbClass(currentId === node.id)} title={`Step ${node.step + 1}: ${node.prompt}`}>
+            <img src={node.edited} alt={`Step ${node.step + 1}`} className="max-w-full max-h-full object-contain" />
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default EditChain;
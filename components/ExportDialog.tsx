@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { downloadBlob } from '../utils/download';
+import { readExif, ExifFields } from '../utils/exif';
+import { buildExportName, EXPORT_FORMATS, ExportFormat, exportImage, UnsupportedExportFormatError } from '../utils/export';
+import { dataUrlToBlob, getMimeType, loadImage } from '../utils/image';
+
+interface ExportDialogProps {
+  original: string;
+  edited: string;
+  sourceName: string | null;
+  presetId?: string;
+  onClose: () => void;
+}
+
+type ExifOption = 'orientation' | 'date' | 'copyright';
+
+const EXIF_OPTIONS: { id: ExifOption; label: string }[] = [
+  { id: 'orientation', label: 'Orientation' },
+  { id: 'date', label: 'Capture date' },
+  { id: 'copyright', label: 'Copyright & artist' }
+];
+
+const pickExif = (fields: ExifFields, options: Set<ExifOption>): ExifFields => ({
+  orientation: options.has('orientation') ? fields.orientation : undefined,
+  dateTime: options.has('date') ? fields.dateTime : undefined,
+  dateTimeOriginal: options.has('date') ? fields.dateTimeOriginal : undefined,
+  copyright: options.has('copyright') ? fields.copyright : undefined,
+  artist: options.has('copyright') ? fields.artist : undefined
+});
+
+const toExportFormat = (mimeType: string): ExportFormat =>
+  EXPORT_FORMATS.some(f => f.id === mimeType) ? (mimeType as ExportFormat) : 'image/png';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ original, edited, sourceName, presetId, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>(toExportFormat(getMimeType(original)));
+  const [quality, setQuality] = useState(92);
+  const [matchSource, setMatchSource] = useState(true);
+  const [exifOptions, setExifOptions] = useState<Set<ExifOption>>(new Set(['date', 'copyright']));
+  const [sizes, setSizes] = useState<{ source: [number, number]; edited: [number, number] } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exif = useMemo(() => readExif(original), [original]);
+
+  useEffect(() => {
+    Promise.all([loadImage(original), loadImage(edited)])
+      .then(([src, out]) => setSizes({ source: [src.naturalWidth, src.naturalHeight], edited: [out.naturalWidth, out.naturalHeight] }))
+      .catch(err => console.error("Failed to read image sizes:", err));
+  }, [original, edited]);
+
+  const toggleExif = (option: ExifOption) => {
+    const next = new Set(exifOptions);
+    if (next.has(option)) next.delete(option);
+    else next.add(option);
+    setExifOptions(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const dataUrl = await exportImage(edited, {
+        format,
+        quality,
+        size: matchSource && sizes ? { width: sizes.source[0], height: sizes.source[1] } : undefined,
+        exif: exif ? pickExif(exif, exifOptions) : undefined
+      });
+      downloadBlob(await dataUrlToBlob(dataUrl), buildExportName(sourceName, presetId, format));
+      onClose();
+    } catch (err) {
+      console.error("Export failed:", err);
+      setExportError(err instanceof UnsupportedExportFormatError ? err.message : 'The image could not be exported.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canWriteExif = format === 'image/jpeg' && !!exif;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl p-8 w-full max-w-md space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-black text-xl tracking-tight">Export</h3>
+          <button onClick={onClose} className="text-[10px] font-black text-gray-400 hover:text-gray-900">CLOSE</button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Format</p>
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFormat(f.id)}
+                className={`flex-1 text-xs font-black py-2 rounded-full transition-colors ${format === f.id ? 'bg-black text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {format !== 'image/png' && (
+          <label className="block space-y-2">
+            <span className="flex justify-between text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              Quality <span className="text-gray-700">{quality}</span>
+            </span>
+            <input type="range" min={1} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="w-full accent-blue-600" />
+          </label>
+        )}
+
+        <label className="flex items-center justify-between text-sm font-bold text-gray-700">
+          <span>
+            Match source size
+            {sizes && (
+              <span className="block text-[10px] font-semibold text-gray-400">
+                {sizes.edited.join('×')} → {sizes.source.join('×')}
+              </span>
+            )}
+          </span>
+          <input type="checkbox" checked={matchSource} onChange={(e) => setMatchSource(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+        </label>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Copy EXIF from source</p>
+          {exif ? (
+            EXIF_OPTIONS.map(option => (
+              <label key={option.id} className={`flex items-center justify-between text-sm font-bold ${canWriteExif ? 'text-gray-700' : 'text-gray-300'}`}>
+                {option.label}
+                <input
+                  type="checkbox"
+                  disabled={!canWriteExif}
+                  checked={exifOptions.has(option.id)}
+                  onChange={() => toggleExif(option.id)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </label>
+            ))
+          ) : (
+            <p className="text-xs font-semibold text-gray-300">The source has no EXIF data.</p>
+          )}
+          {exif && !canWriteExif && <p className="text-[10px] font-semibold text-gray-400">EXIF is only written to JPEG exports.</p>}
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full py-4 rounded-2xl font-black text-sm bg-black text-white hover:bg-gray-900 transition-all active:scale-[0.97] disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          {isExporting ? 'EXPORTING…' : `DOWNLOAD ${buildExportName(sourceName, presetId, format)}`}
+        </button>
+        {exportError && <p className="text-xs font-bold text-red-600 text-center">{exportError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { HistoryItem, UsageRecord, Variant } from '../types';
+import { HISTORY_LIMIT_OPTIONS } from '../services/historyStore';
+import { ModelPrice } from '../services/usageStore';
+import { formatCost, formatTokens, sumUsage } from '../utils/usage';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  // Used to estimate what each entry cost
+  prices: ModelPrice[];
+  limit: number;
+  disabled: boolean;
+  onLimitChange: (limit: number) => void;
+  onRestore: (item: HistoryItem) => void;
+  onRerun: (item: HistoryItem) => void;
+  onDelete: (item: HistoryItem) => void;
+  // One entry compares its original and result; two compare their results
+  onCompare: (items: HistoryItem[]) => void;
+  onUseAlternate: (item: HistoryItem, alternate: Variant) => void;
+}
+
+// Every word must appear in the prompt, caption, tags or preset id
+const matchesQuery = (item: HistoryItem, query: string) => {
+  const haystack = [item.prompt, item.caption, item.presetId, ...(item.tags ?? [])].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word.replace(/^#/, '')));
+};
+
+const describeUsage = (usage: UsageRecord[], prices: ModelPrice[]) => {
+  const totals = sumUsage(usage, prices);
+  return `${totals.calls} call${totals.calls === 1 ? '' : 's'} · ${formatTokens(totals.inputTokens + totals.outputTokens)} tokens · ${formatCost(totals.cost)}`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, prices, limit, disabled, onLimitChange, onRestore, onRerun, onDelete, onCompare, onUseAlternate }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const selected = items.filter(item => selectedIds.includes(item.id));
+  const visible = query.trim() ? items.filter(item => matchesQuery(item, query)) : items;
+
+  // Keeps at most two entries selected, dropping the oldest pick
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)));
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between px-4">
+        <div className="flex items-center gap-4">
+          <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">History ({items.length})</h3>
+          {selected.length > 0 && (
+            <button onClick={() => onCompare(selected)} className="text-[10px] font-black text-blue-600 bg-blue-50 px-4 py-2 rounded-full hover:bg-blue-100 transition-colors">
+              COMPARE {selected.length === 1 ? 'BEFORE/AFTER' : 'SELECTED'}
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts and tags"
+            className="bg-gray-50 border border-gray-200 rounded-full px-4 py-1.5 text-xs outline-none focus:border-blue-500 w-48"
+          />
+          <label className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+            Keep last
+            <select
+              value={limit}
+              onChange={(e) => onLimitChange(Number(e.target.value))}
+              className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-gray-700 outline-none focus:border-blue-500"
+            >
+              {HISTORY_LIMIT_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="bg-gray-50 rounded-[2.5rem] border border-gray-100 p-8 text-center text-sm font-bold text-gray-300">
+          Finished edits will be kept here, even after a reload.
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="bg-gray-50 rounded-[2.5rem] border border-gray-100 p-8 text-center text-sm font-bold text-gray-300">
+          No edits match "{query}".
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-6">
+          {visible.map(item => (
+            <div key={item.id} className={`relative bg-gray-50 rounded-[2rem] border overflow-hidden shadow-sm group ${selectedIds.includes(item.id) ? 'border-blue-500' : 'border-gray-100'}`}>
+              <button onClick={() => onRestore(item)} className="w-full aspect-square bg-white flex items-center justify-center overflow-hidden" title="Restore into editor">
+                <img src={item.edited} alt={item.prompt} className="max-w-full max-h-full object-contain group-hover:scale-105 transition-transform" />
+              </button>
+              <button
+                onClick={() => toggleSelected(item.id)}
+                className={`absolute top-3 right-3 text-[10px] font-black px-3 py-1 rounded-full shadow transition-colors ${
+                  selectedIds.includes(item.id) ? 'bg-blue-600 text-white' : 'bg-white/90 text-gray-500 opacity-0 group-hover:opacity-100'
+                }`}
+                title="Select for comparison"
+              >
+                {selectedIds.includes(item.id) ? `#${selectedIds.indexOf(item.id) + 1}` : 'COMPARE'}
+              </button>
+              {item.favorite && <span className="absolute top-3 left-3 text-yellow-500 text-sm drop-shadow" title="Starred">★</span>}
+              <div className="p-4 space-y-3">
+                <p className="text-xs font-semibold text-gray-600 line-clamp-2" title={item.prompt}>{item.prompt}</p>
+                {item.caption && <p className="text-[11px] font-medium text-gray-400 line-clamp-2" title={item.caption}>{item.caption}</p>}
+                {item.tags && item.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {item.tags.map(tag => (
+                      <button key={tag} onClick={() => setQuery(`#${tag}`)} className="text-[10px] font-bold text-blue-500 hover:underline">#{tag}</button>
+                    ))}
+                  </div>
+                )}
+                {item.params && Object.keys(item.params).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(item.params).map(([key, value]) => (
+                      <span key={key} className="text-[10px] font-bold bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">
+                        {key}: {String(value) || '—'}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {item.references && item.references.length > 0 && (
+                  <div className="flex gap-1" title="Reference images sent with this edit">
+                    {item.references.map(ref => (
+                      <img key={ref.id} src={ref.image} alt={ref.role} title={ref.role} className="w-6 h-6 rounded object-cover border border-gray-200" />
+                    ))}
+                  </div>
+                )}
+                {item.alternates && item.alternates.length > 0 && (
+                  <div className="flex gap-1" title="Alternates: click one to make it the result">
+                    {item.alternates.map(alternate => (
+                      <button
+                        key={alternate.id}
+                        onClick={() => onUseAlternate(item, alternate)}
+                        disabled={disabled}
+                        className="relative w-10 h-10 bg-white rounded-lg overflow-hidden border border-gray-200 hover:border-blue-500 transition-colors"
+                      >
+                        <img src={alternate.image} alt="Alternate" className="w-full h-full object-cover" />
+                        {alternate.favorite && <span className="absolute top-0 right-0.5 text-[10px] text-yellow-500">★</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {item.usage && item.usage.length > 0 && (
+                  <p className="text-[10px] font-bold text-gray-400">{describeUsage(item.usage, prices)}</p>
+                )}
+                <p className="text-[10px] font-bold text-gray-300">
+                  {item.step > 0 && <span className="text-blue-500 mr-2">STEP {item.step + 1}</span>}
+                  {new Date(item.timestamp).toLocaleString()}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => onRestore(item)} className="flex-1 text-[10px] font-black bg-white border border-gray-200 rounded-full py-2 hover:bg-gray-100 transition-colors">RESTORE</button>
+                  <button
+                    onClick={() => onRerun(item)}
+                    disabled={disabled}
+                    className="flex-1 text-[10px] font-black bg-black text-white rounded-full py-2 hover:bg-gray-800 transition-colors disabled:bg-gray-200 disabled:text-gray-400"
+                  >
+                    RE-RUN
+                  </button>
+                  <button onClick={() => onDelete(item)} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 transition-colors" title="Delete">✕</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isMaskEmpty } from '../utils/mask';
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskCanvasProps {
+  image: string;
+  mask: string | null;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  onChange: (mask: string | null) => void;
+}
+
+const TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'BRUSH' },
+  { id: 'lasso', label: 'LASSO' },
+  { id: 'erase', label: 'ERASE' }
+];
+
+const MASK_COLOR = '#3b82f6';
+
+// Paints a selection mask over the source image at the image's native resolution
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ image, mask, feather, onFeatherChange, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const drawing = useRef(false);
+  const points = useRef<{ x: number; y: number }[]>([]);
+
+  useEffect(() => {
+    setSize(null);
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = image;
+  }, [image]);
+
+  // Bring back a mask painted before the canvas was last unmounted
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!size || !mask || !ctx) return;
+    const img = new Image();
+    img.onload = () => ctx.drawImage(img, 0, 0);
+    img.src = mask;
+  }, [size]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  // Brush size is given in screen pixels so it feels the same at any image resolution
+  const getLineWidth = (canvas: HTMLCanvasElement) => brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const point = getPoint(e);
+    points.current = [point];
+
+    if (tool !== 'lasso') {
+      ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, getLineWidth(e.currentTarget) / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = getPoint(e);
+    const prev = points.current[points.current.length - 1];
+    points.current.push(point);
+
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = tool === 'lasso' ? Math.max(2, getLineWidth(e.currentTarget) / 10) : getLineWidth(e.currentTarget);
+    ctx.beginPath();
+    ctx.moveTo(prev.x, prev.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    if (tool === 'lasso' && points.current.length > 2) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      points.current.forEach(({ x, y }, i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    }
+    points.current = [];
+    onChange(isMaskEmpty(canvas) ? null : canvas.toDataURL('image/png'));
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`text-[10px] font-black px-3 py-1.5 rounded-full transition-colors ${tool === t.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-500 hover:bg-gray-100'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 text-[10px] font-black text-gray-400">
+          SIZE
+          <input type="range" min={5} max={150} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-16 accent-blue-600" />
+        </label>
+        <label className="flex items-center gap-1 text-[10px] font-black text-gray-400">
+          FEATHER
+          <input type="range" min={0} max={60} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} className="w-16 accent-blue-600" />
+        </label>
+        <button onClick={clearMask} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 transition-colors">CLEAR</button>
+      </div>
+      <div className="flex-1 min-h-0 grid place-items-center">
+        <img src={image} alt="Original" className="col-start-1 row-start-1 max-w-full max-h-full object-contain rounded-3xl" />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="col-start-1 row-start-1 max-w-full max-h-full opacity-50 cursor-crosshair touch-none"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,332 @@
+import React, { useRef, useState } from 'react';
+import { EditingPreset, PresetParam, PresetParamType, SubPreset } from '../types';
+import {
+  collectIds,
+  createUniqueId,
+  duplicateCategory,
+  ImportStrategy,
+  mergeImportedPresets,
+  parsePresetFile,
+  PresetImportError,
+  serializePresets,
+  validatePresets
+} from '../services/presetStore';
+import { downloadBlob } from '../utils/download';
+
+interface PresetManagerProps {
+  builtIn: EditingPreset[];
+  custom: EditingPreset[];
+  onChange: (custom: EditingPreset[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full text-sm p-2 bg-white border border-gray-200 rounded-xl outline-none focus:border-blue-500';
+const smallInputClass = 'text-xs p-1.5 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500';
+
+const PARAM_TYPES: { id: PresetParamType; label: string }[] = [
+  { id: 'enum', label: 'Choice' },
+  { id: 'color', label: 'Color' },
+  { id: 'slider', label: 'Slider 0–100' },
+  { id: 'text', label: 'Text' }
+];
+
+const createParam = (type: PresetParamType, id: string, label: string): PresetParam => {
+  switch (type) {
+    case 'enum':
+      return { id, label, type, options: ['subtle', 'strong'], default: 'subtle' };
+    case 'color':
+      return { id, label, type, default: '#ffffff' };
+    case 'slider':
+      return { id, label, type, default: 50 };
+    case 'text':
+      return { id, label, type, default: '' };
+  }
+};
+
+const parseOptions = (text: string) => text.split(',').map(option => option.trim()).filter(Boolean);
+
+const invalidClass = '!border-red-400';
+
+interface ParamRowProps {
+  param: PresetParam;
+  // Empty or shared with another parameter of the same preset
+  invalidId: boolean;
+  onChange: (param: PresetParam) => void;
+  onDelete: () => void;
+}
+
+const ParamRow: React.FC<ParamRowProps> = ({ param, invalidId, onChange, onDelete }) => {
+  // Options text while it is being typed; otherwise the field shows the param's own options
+  const [optionsDraft, setOptionsDraft] = useState<string | null>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        value={param.id}
+        onChange={(e) => onChange({ ...param, id: e.target.value.replace(/[^\w-]/g, '') })}
+        className={`${smallInputClass} w-24 font-mono ${invalidId ? invalidClass : ''}`}
+        title="Placeholder name"
+      />
+      <input value={param.label} onChange={(e) => onChange({ ...param, label: e.target.value })} className={`${smallInputClass} w-28`} title="Label" />
+      <select
+        value={param.type}
+        onChange={(e) => onChange(createParam(e.target.value as PresetParamType, param.id, param.label))}
+        className={smallInputClass}
+      >
+        {PARAM_TYPES.map(type => <option key={type.id} value={type.id}>{type.label}</option>)}
+      </select>
+      {param.type === 'enum' && (
+        <>
+          <input
+            value={optionsDraft ?? param.options.join(', ')}
+            onChange={(e) => setOptionsDraft(e.target.value)}
+            onBlur={(e) => {
+              const options = parseOptions(e.target.value);
+              setOptionsDraft(null);
+              if (options.length) onChange({ ...param, options, default: options.includes(param.default) ? param.default : options[0] });
+            }}
+            className={`${smallInputClass} flex-1 min-w-[8rem]`}
+            placeholder="Comma-separated options"
+          />
+          <select value={param.default} onChange={(e) => onChange({ ...param, default: e.target.value })} className={smallInputClass} title="Default">
+            {param.options.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </>
+      )}
+      {param.type === 'color' && (
+        <input type="color" value={param.default} onChange={(e) => onChange({ ...param, default: e.target.value })} className="w-8 h-7 rounded border border-gray-200" title="Default" />
+      )}
+      {param.type === 'slider' && (
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={param.default}
+          onChange={(e) => onChange({ ...param, default: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+          className={`${smallInputClass} w-16`}
+          title="Default"
+        />
+      )}
+      {param.type === 'text' && (
+        <input value={param.default} onChange={(e) => onChange({ ...param, default: e.target.value })} className={`${smallInputClass} flex-1 min-w-[8rem]`} placeholder="Default" />
+      )}
+      <button onClick={onDelete} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-1">✕</button>
+    </div>
+  );
+};
+
+const PresetManager: React.FC<PresetManagerProps> = ({ builtIn, custom, onChange, onClose }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(custom[0]?.id ?? null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('rename');
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string; issues?: string[] } | null>(null);
+
+  const selected = custom.find(c => c.id === selectedId) ?? null;
+  const allPresets = [...builtIn, ...custom];
+  // Anything the importer would reject blocks export, so an exported file always imports
+  const issues = validatePresets(custom);
+
+  const updateCategory = (id: string, patch: Partial<EditingPreset>) =>
+    onChange(custom.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const updateSubPreset = (category: EditingPreset, subId: string, patch: Partial<SubPreset>) =>
+    updateCategory(category.id, { subPresets: category.subPresets.map(s => (s.id === subId ? { ...s, ...patch } : s)) });
+
+  const addCategory = () => {
+    const taken = collectIds(allPresets);
+    const category: EditingPreset = {
+      id: createUniqueId('My Presets', taken),
+      label: 'My Presets',
+      icon: '⭐',
+      subPresets: [{ id: createUniqueId('New Preset', taken), label: 'New Preset', prompt: '' }]
+    };
+    onChange([...custom, category]);
+    setSelectedId(category.id);
+  };
+
+  const duplicate = (category: EditingPreset) => {
+    const copy = duplicateCategory(category, allPresets);
+    onChange([...custom, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteCategory = (id: string) => {
+    onChange(custom.filter(c => c.id !== id));
+    setSelectedId(null);
+  };
+
+  const addSubPreset = (category: EditingPreset, base?: SubPreset) => {
+    const label = base ? `${base.label} (copy)` : 'New Preset';
+    // A copy keeps its parameters and tileable flag, so its {{placeholders}} still resolve
+    const sub: SubPreset = { prompt: '', ...base, id: createUniqueId(label, collectIds(allPresets)), label };
+    updateCategory(category.id, { subPresets: [...category.subPresets, sub] });
+  };
+
+  const updateParams = (category: EditingPreset, sub: SubPreset, params: PresetParam[]) =>
+    updateSubPreset(category, sub.id, { params: params.length ? params : undefined });
+
+  const addParam = (category: EditingPreset, sub: SubPreset) => {
+    const params = sub.params ?? [];
+    let n = params.length + 1;
+    while (params.some(param => param.id === `param${n}`)) n++;
+    updateParams(category, sub, [...params, createParam('text', `param${n}`, `Parameter ${n}`)]);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializePresets(custom)], { type: 'application/json' }), 'gemini-lens-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      const { presets, renamed } = mergeImportedPresets(custom, builtIn, imported, strategy);
+      onChange(presets);
+      setImportMessage({
+        ok: true,
+        text: `Imported ${imported.length} ${imported.length === 1 ? 'category' : 'categories'}${renamed ? `, ${renamed} conflicting ids renamed` : ''}.`
+      });
+    } catch (err) {
+      if (err instanceof PresetImportError) {
+        setImportMessage({ ok: false, text: err.message, issues: err.issues });
+      } else {
+        console.error("Preset import failed:", err);
+        setImportMessage({ ok: false, text: 'The file could not be read.' });
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-8 py-6 border-b border-gray-100">
+          <h3 className="font-black text-xl tracking-tight">Preset Manager</h3>
+          <button onClick={onClose} className="text-[10px] font-black text-gray-400 hover:text-gray-900">CLOSE</button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[16rem_1fr]">
+          <div className="border-r border-gray-100 bg-gray-50 p-4 space-y-6 overflow-y-auto">
+            <div className="space-y-1">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-2 mb-2">Custom</p>
+              {custom.map(category => (
+                <button
+                  key={category.id}
+                  onClick={() => setSelectedId(category.id)}
+                  className={`w-full flex items-center gap-2 p-3 rounded-xl text-sm font-bold text-left transition-colors ${selectedId === category.id ? 'bg-white shadow text-blue-600' : 'text-gray-600 hover:bg-gray-200/50'}`}
+                >
+                  <span>{category.icon}</span>
+                  <span className="truncate">{category.label}</span>
+                </button>
+              ))}
+              <button onClick={addCategory} className="w-full text-[10px] font-black text-blue-600 bg-blue-50 rounded-full py-2 mt-2 hover:bg-blue-100 transition-colors">+ NEW CATEGORY</button>
+            </div>
+            <div className="space-y-1">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-2 mb-2">Built-in</p>
+              {builtIn.map(category => (
+                <div key={category.id} className="flex items-center justify-between gap-2 p-3 text-sm font-bold text-gray-400">
+                  <span className="truncate">{category.icon} {category.label}</span>
+                  <button onClick={() => duplicate(category)} className="text-[10px] font-black hover:text-gray-900 shrink-0" title="Copy into a custom category">DUPLICATE</button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4 overflow-y-auto">
+            {selected ? (
+              <>
+                <div className="flex gap-2">
+                  <input value={selected.icon} onChange={(e) => updateCategory(selected.id, { icon: e.target.value })} className={`${inputClass} w-16 text-center`} maxLength={4} />
+                  <input value={selected.label} onChange={(e) => updateCategory(selected.id, { label: e.target.value })} className={`${inputClass} font-bold ${selected.label.trim() ? '' : invalidClass}`} placeholder="Category name" />
+                  <button onClick={() => duplicate(selected)} className="text-[10px] font-black bg-gray-100 px-4 rounded-full hover:bg-gray-200 shrink-0">DUPLICATE</button>
+                  <button onClick={() => deleteCategory(selected.id)} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 shrink-0">DELETE</button>
+                </div>
+                {selected.subPresets.map(sub => (
+                  <div key={sub.id} className="bg-gray-50 rounded-2xl p-4 space-y-2">
+                    <div className="flex gap-2">
+                      <input value={sub.label} onChange={(e) => updateSubPreset(selected, sub.id, { label: e.target.value })} className={`${inputClass} font-semibold ${sub.label.trim() ? '' : invalidClass}`} placeholder="Preset name" />
+                      <button onClick={() => addSubPreset(selected, sub)} className="text-[10px] font-black text-gray-400 hover:text-gray-900 px-2 shrink-0">DUPLICATE</button>
+                      <button
+                        onClick={() => updateCategory(selected.id, { subPresets: selected.subPresets.filter(s => s.id !== sub.id) })}
+                        className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 shrink-0"
+                      >
+                        DELETE
+                      </button>
+                    </div>
+                    <textarea
+                      value={sub.prompt}
+                      onChange={(e) => updateSubPreset(selected, sub.id, { prompt: e.target.value })}
+                      placeholder="Prompt sent to the model. Use {{name}} to insert a parameter."
+                      className={`${inputClass} h-20 resize-none ${sub.prompt.trim() ? '' : invalidClass}`}
+                    />
+                    {sub.params?.map((param, i) => (
+                      <ParamRow
+                        key={i}
+                        param={param}
+                        invalidId={!param.id || sub.params!.some((p, j) => j !== i && p.id === param.id)}
+                        onChange={(next) => updateParams(selected, sub, sub.params!.map((p, j) => (j === i ? next : p)))}
+                        onDelete={() => updateParams(selected, sub, sub.params!.filter((_, j) => j !== i))}
+                      />
+                    ))}
+                    <div className="flex items-center justify-between">
+                      <button onClick={() => addParam(selected, sub)} className="text-[10px] font-black text-blue-600 hover:text-blue-800">+ PARAMETER</button>
+                      <label className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest" title="Allow large images to be edited tile by tile">
+                        Tileable
+                        <input
+                          type="checkbox"
+                          checked={!!sub.tileable}
+                          onChange={(e) => updateSubPreset(selected, sub.id, { tileable: e.target.checked || undefined })}
+                          className="w-3.5 h-3.5 accent-blue-600"
+                        />
+                      </label>
+                    </div>
+                    <p className="text-[10px] font-mono text-gray-300">{sub.id}</p>
+                  </div>
+                ))}
+                <button onClick={() => addSubPreset(selected)} className="w-full text-[10px] font-black text-blue-600 bg-blue-50 rounded-full py-2 hover:bg-blue-100 transition-colors">+ ADD PRESET</button>
+              </>
+            ) : (
+              <p className="text-sm font-bold text-gray-300 text-center pt-16">Create a category or duplicate a built-in one to start.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="px-8 py-4 border-t border-gray-100 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={handleExport} disabled={!custom.length || issues.length > 0} title={issues.length ? 'Fix the highlighted fields first' : undefined} className="text-[10px] font-black bg-black text-white px-5 py-2 rounded-full hover:bg-gray-800 transition-colors disabled:bg-gray-200 disabled:text-gray-400">EXPORT JSON</button>
+            <button onClick={() => importInputRef.current?.click()} className="text-[10px] font-black bg-gray-100 px-5 py-2 rounded-full hover:bg-gray-200 transition-colors">IMPORT JSON</button>
+            <label className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              On id conflict
+              <select value={strategy} onChange={(e) => setStrategy(e.target.value as ImportStrategy)} className="bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-gray-700 outline-none">
+                <option value="rename">Keep both</option>
+                <option value="replace">Replace mine</option>
+              </select>
+            </label>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          {issues.length > 0 && (
+            <div className="text-xs font-bold text-red-600">
+              Fix these before exporting:
+              <ul className="mt-1 font-mono font-normal text-[10px] list-disc pl-4 max-h-24 overflow-y-auto">
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+          {importMessage && (
+            <div className={`text-xs font-bold ${importMessage.ok ? 'text-green-600' : 'text-red-600'}`}>
+              {importMessage.text}
+              {importMessage.issues && importMessage.issues.length > 0 && (
+                <ul className="mt-1 font-mono font-normal text-[10px] list-disc pl-4 max-h-24 overflow-y-auto">
+                  {importMessage.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
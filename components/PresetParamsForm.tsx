@@ -0,0 +1,65 @@
+import React from 'react';
+import { PresetParam, PresetParamValues } from '../types';
+
+interface PresetParamsFormProps {
+  params: PresetParam[];
+  values: PresetParamValues;
+  disabled?: boolean;
+  onChange: (values: PresetParamValues) => void;
+}
+
+const fieldClass = 'w-full bg-white border border-gray-200 rounded-xl px-3 py-2 text-xs font-semibold outline-none focus:border-blue-500';
+
+// Builds one control per parameter type; missing values show the parameter's default
+const PresetParamsForm: React.FC<PresetParamsFormProps> = ({ params, values, disabled, onChange }) => {
+  const set = (id: string, value: string | number) => onChange({ ...values, [id]: value });
+
+  return (
+    <div className="space-y-3 p-3 bg-white rounded-xl border border-gray-100">
+      {params.map(param => {
+        const value = values[param.id] ?? param.default;
+        return (
+          <label key={param.id} className="block space-y-1">
+            <span className="flex justify-between text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              {param.label}
+              {param.type === 'slider' && <span className="text-gray-700">{value}</span>}
+            </span>
+            {param.type === 'enum' && (
+              <select value={String(value)} disabled={disabled} onChange={(e) => set(param.id, e.target.value)} className={fieldClass}>
+                {param.options.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            )}
+            {param.type === 'color' && (
+              <span className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={String(value)}
+                  disabled={disabled}
+                  onChange={(e) => set(param.id, e.target.value)}
+                  className="w-10 h-8 rounded-lg border border-gray-200 cursor-pointer"
+                />
+                <span className="text-xs font-mono text-gray-500">{value}</span>
+              </span>
+            )}
+            {param.type === 'slider' && (
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Number(value)}
+                disabled={disabled}
+                onChange={(e) => set(param.id, Number(e.target.value))}
+                className="w-full accent-blue-600"
+              />
+            )}
+            {param.type === 'text' && (
+              <input type="text" value={String(value)} disabled={disabled} onChange={(e) => set(param.id, e.target.value)} className={fieldClass} />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PresetParamsForm;
@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+
+interface ProcessingOverlayProps {
+  startedAt: number;
+  status: string | null;
+  onCancel: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+// Covers the preview while an edit runs; ticks its own clock so App doesn't re-render every second
+const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({ startedAt, status, onCancel }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="absolute inset-0 z-10 bg-white/80 backdrop-blur-xl flex flex-col items-center justify-center px-8 text-center">
+      <div className="w-20 h-20 border-8 border-gray-100 rounded-full border-t-black animate-spin mb-6 shadow-xl" />
+      <p className="font-black text-gray-900 text-2xl tracking-tight">Processing... <span className="text-gray-400 tabular-nums">{formatElapsed(now - startedAt)}</span></p>
+      <p className="text-xs text-gray-400 font-bold mt-2 uppercase tracking-widest animate-pulse line-clamp-2">{status ?? 'Running Gemini Vision'}</p>
+      <button onClick={onCancel} className="mt-6 text-[10px] font-black bg-gray-100 px-6 py-2 rounded-full hover:bg-red-50 hover:text-red-600 transition-colors">CANCEL</button>
+    </div>
+  );
+};
+
+export default ProcessingOverlay;
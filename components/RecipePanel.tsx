@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { EditingPreset, Recipe, RecipeStep } from '../types';
+import { getStepLabel } from '../utils/presets';
+
+interface RecipePanelProps {
+  recipes: Recipe[];
+  presets: EditingPreset[];
+  disabled: boolean;
+  onRun: (recipe: Recipe) => void;
+  onChange: (recipes: Recipe[]) => void;
+}
+
+const CUSTOM_STEP = '__custom__';
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ recipes, presets, disabled, onRun, onChange }) => {
+  const [draft, setDraft] = useState<Recipe | null>(null);
+
+  const startNew = () => setDraft({ id: `recipe-${Date.now()}`, label: 'New Recipe', steps: [{ presetId: presets[0]?.subPresets[0]?.id }] });
+
+  const updateStep = (index: number, step: RecipeStep) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.map((s, i) => (i === index ? step : s)) });
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    if (!draft) return;
+    const target = index + delta;
+    if (target < 0 || target >= draft.steps.length) return;
+    const steps = [...draft.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setDraft({ ...draft, steps });
+  };
+
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const steps = draft.steps.filter(step => step.presetId || step.customPrompt?.trim());
+    if (!steps.length) return;
+    const saved = { ...draft, label: draft.label.trim() || 'Untitled Recipe', steps };
+    const exists = recipes.some(r => r.id === saved.id);
+    onChange(exists ? recipes.map(r => (r.id === saved.id ? saved : r)) : [...recipes, saved]);
+    setDraft(null);
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    onChange(recipes.filter(r => r.id !== draft.id));
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <div className="bg-white rounded-2xl border border-gray-200 p-4 space-y-3 shadow-sm">
+        <input
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          className="w-full text-sm font-bold p-2 border-b border-gray-100 outline-none focus:border-blue-500"
+        />
+        {draft.steps.map((step, index) => (
+          <div key={index} className="space-y-2">
+            <div className="flex items-center gap-1">
+              <span className="text-[10px] font-black text-gray-300 w-4">{index + 1}</span>
+              <select
+                value={step.presetId ?? CUSTOM_STEP}
+                onChange={(e) => updateStep(index, e.target.value === CUSTOM_STEP ? { customPrompt: '' } : { presetId: e.target.value })}
+                className="flex-1 min-w-0 text-xs font-semibold bg-gray-50 border border-gray-200 rounded-lg p-2 outline-none"
+              >
+                {presets.map(category => (
+                  <optgroup key={category.id} label={category.label}>
+                    {category.subPresets.map(sub => (
+                      <option key={sub.id} value={sub.id}>{sub.label}</option>
+                    ))}
+                  </optgroup>
+                ))}
+                <option value={CUSTOM_STEP}>Custom prompt…</option>
+              </select>
+              <button onClick={() => moveStep(index, -1)} className="text-xs text-gray-400 hover:text-gray-900 px-1">↑</button>
+              <button onClick={() => moveStep(index, 1)} className="text-xs text-gray-400 hover:text-gray-900 px-1">↓</button>
+              <button onClick={() => removeStep(index)} className="text-xs text-gray-400 hover:text-red-500 px-1">✕</button>
+            </div>
+            {step.presetId === undefined && (
+              <textarea
+                value={step.customPrompt ?? ''}
+                onChange={(e) => updateStep(index, { customPrompt: e.target.value })}
+                placeholder="Describe this step..."
+                className="w-full h-16 p-2 text-xs bg-gray-50 border border-gray-200 rounded-lg outline-none resize-none focus:border-blue-500"
+              />
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft({ ...draft, steps: [...draft.steps, { presetId: presets[0]?.subPresets[0]?.id }] })}
+          className="w-full text-[10px] font-black text-blue-600 bg-blue-50 rounded-full py-2 hover:bg-blue-100 transition-colors"
+        >
+          + ADD STEP
+        </button>
+        <div className="flex gap-2 pt-2">
+          <button onClick={saveDraft} className="flex-1 text-[10px] font-black bg-black text-white rounded-full py-2 hover:bg-gray-800 transition-colors">SAVE</button>
+          <button onClick={() => setDraft(null)} className="flex-1 text-[10px] font-black bg-gray-100 rounded-full py-2 hover:bg-gray-200 transition-colors">CANCEL</button>
+          {recipes.some(r => r.id === draft.id) && (
+            <button onClick={deleteDraft} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 transition-colors">DELETE</button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {recipes.map(recipe => (
+        <div key={recipe.id} className="bg-white rounded-2xl border border-gray-100 p-3 shadow-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-bold text-sm text-gray-700 truncate">{recipe.label}</span>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => setDraft(recipe)} className="text-[10px] font-black text-gray-400 hover:text-gray-900 px-2 py-1">EDIT</button>
+              <button
+                onClick={() => onRun(recipe)}
+                disabled={disabled}
+                className="text-[10px] font-black bg-black text-white rounded-full px-3 py-1 hover:bg-gray-800 transition-colors disabled:bg-gray-200 disabled:text-gray-400"
+              >
+                RUN
+              </button>
+            </div>
+          </div>
+          <p className="text-[10px] font-semibold text-gray-400 mt-1 truncate">
+            {recipe.steps.map(step => getStepLabel(presets, step)).join(' → ')}
+          </p>
+        </div>
+      ))}
+      <button onClick={startNew} className="w-full text-[10px] font-black text-blue-600 bg-blue-50 rounded-full py-2 hover:bg-blue-100 transition-colors">+ NEW RECIPE</button>
+    </div>
+  );
+};
+
+export default RecipePanel;
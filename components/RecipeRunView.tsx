@@ -0,0 +1,60 @@
+import React from 'react';
+import { RecipeRun, RecipeStepStatus } from '../types';
+
+interface RecipeRunViewProps {
+  run: RecipeRun;
+  isRunning: boolean;
+  onResume: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RecipeStepStatus, string> = {
+  pending: 'bg-gray-100 text-gray-400',
+  running: 'bg-blue-100 text-blue-600 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-600'
+};
+
+// Strip of intermediate outputs, one card per recipe step
+const RecipeRunView: React.FC<RecipeRunViewProps> = ({ run, isRunning, onResume, onClose }) => {
+  const failed = run.steps.some(step => step.status === 'failed');
+
+  return (
+    <section className="bg-gray-50 rounded-[2.5rem] border border-gray-100 p-6 space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Recipe · {run.recipe.label}</h3>
+        <div className="flex gap-2">
+          {failed && !isRunning && (
+            <button onClick={onResume} className="text-[10px] font-black bg-black text-white px-4 py-2 rounded-full hover:bg-gray-800 transition-colors">RESUME</button>
+          )}
+          {!isRunning && (
+            <button onClick={onClose} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors">CLOSE</button>
+          )}
+        </div>
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        <div className="w-32 shrink-0 space-y-2">
+          <div className="aspect-square bg-white rounded-2xl flex items-center justify-center overflow-hidden">
+            <img src={run.source} alt="Source" className="max-w-full max-h-full object-contain" />
+          </div>
+          <p className="text-[10px] font-black text-gray-400 uppercase">Source</p>
+        </div>
+        {run.steps.map((step, index) => (
+          <div key={index} className="w-32 shrink-0 space-y-2">
+            <div className="aspect-square bg-white rounded-2xl flex items-center justify-center overflow-hidden">
+              {step.image ? (
+                <img src={step.image} alt={`Step ${index + 1}`} className="max-w-full max-h-full object-contain" />
+              ) : (
+                <span className="text-2xl font-black text-gray-200">{index + 1}</span>
+              )}
+            </div>
+            <span className={`inline-block text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[step.status]}`}>{step.status}</span>
+            <p className="text-[10px] font-semibold text-gray-500 line-clamp-2" title={step.error || step.prompt}>{step.error || step.prompt}</p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecipeRunView;
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { isImageFile, readFileAsDataUrl } from '../utils/files';
+import { normalizeImage } from '../utils/preprocess';
+import { MAX_REFERENCES, REFERENCE_ROLES } from '../utils/references';
+
+interface ReferencePanelProps {
+  references: ReferenceImage[];
+  disabled: boolean;
+  onChange: (references: ReferenceImage[]) => void;
+}
+
+const NOTE_PLACEHOLDERS: Record<ReferenceRole, string> = {
+  style: 'e.g. keep the skin tones natural',
+  background: 'e.g. golden hour, subject on the left',
+  object: 'e.g. on the table next to the laptop',
+  custom: 'e.g. copy the logo from this image onto the mug'
+};
+
+const ReferencePanel: React.FC<ReferencePanelProps> = ({ references, disabled, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Names of files from the last pick that couldn't be used
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const update = (id: string, patch: Partial<ReferenceImage>) =>
+    onChange(references.map(ref => (ref.id === id ? { ...ref, ...patch } : ref)));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(isImageFile).slice(0, MAX_REFERENCES - references.length);
+    e.target.value = '';
+    const results = await Promise.allSettled(files.map(async (file, i): Promise<ReferenceImage> => ({
+      id: `${Date.now()}-${i}`,
+      image: await normalizeImage(await readFileAsDataUrl(file)),
+      role: 'style'
+    })));
+    const added = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    if (added.length) onChange([...references, ...added]);
+    setSkipped(results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return [];
+      console.error("Failed to read reference image:", result.reason);
+      return [files[i].name];
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      {references.map((ref, i) => (
+        <div key={ref.id} className="flex gap-3 p-3 bg-white rounded-2xl border border-gray-100 shadow-sm">
+          <div className="relative w-16 h-16 shrink-0 bg-gray-50 rounded-xl overflow-hidden flex items-center justify-center">
+            <img src={ref.image} alt={`Reference ${i + 1}`} className="max-w-full max-h-full object-contain" />
+            {/* The source is image 1, so references start at 2 */}
+            <span className="absolute bottom-1 left-1 text-[9px] font-black bg-black/60 text-white px-1.5 rounded-full">#{i + 2}</span>
+          </div>
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={ref.role}
+                disabled={disabled}
+                onChange={(e) => update(ref.id, { role: e.target.value as ReferenceRole })}
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-full px-3 py-1 text-xs font-semibold outline-none focus:border-blue-500"
+              >
+                {REFERENCE_ROLES.map(role => <option key={role.id} value={role.id}>{role.label}</option>)}
+              </select>
+              <button
+                onClick={() => onChange(references.filter(r => r.id !== ref.id))}
+                disabled={disabled}
+                className="text-[10px] font-black text-gray-400 hover:text-red-500 px-1"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              value={ref.note ?? ''}
+              disabled={disabled}
+              onChange={(e) => update(ref.id, { note: e.target.value })}
+              placeholder={NOTE_PLACEHOLDERS[ref.role]}
+              className="w-full bg-gray-50 border border-gray-200 rounded-xl px-3 py-1.5 text-xs outline-none focus:border-blue-500"
+            />
+          </div>
+        </div>
+      ))}
+      {references.length < MAX_REFERENCES && (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="w-full text-[10px] font-black text-blue-600 bg-blue-50 rounded-full py-2 hover:bg-blue-100 transition-colors disabled:opacity-50"
+        >
+          + ADD REFERENCE IMAGE
+        </button>
+      )}
+      {skipped.length > 0 && (
+        <p className="text-[10px] font-bold text-red-500 px-2">Could not read {skipped.join(', ')}. Convert to JPEG or PNG first.</p>
+      )}
+      <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+    </div>
+  );
+};
+
+export default ReferencePanel;
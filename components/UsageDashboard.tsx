@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { UsageRecord } from '../types';
+import { BudgetPeriod, ModelPrice, UsageBudget } from '../services/usageStore';
+import { estimateCost, formatCost, formatTokens, getPeriodKey, getPeriodSpend, groupUsage, sumUsage, UsageTotals } from '../utils/usage';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  prices: ModelPrice[];
+  budget: UsageBudget | null;
+  onPricesChange: (prices: ModelPrice[]) => void;
+  onBudgetChange: (budget: UsageBudget | null) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const RECENT_LIMIT = 25;
+const smallInputClass = 'text-xs p-1.5 bg-white border border-gray-200 rounded-lg outline-none focus:border-blue-500';
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'today', month: 'this month' };
+
+const SummaryCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="bg-gray-50 rounded-[2rem] border border-gray-100 p-5 space-y-1">
+    <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{title}</p>
+    <p className="text-2xl font-black text-gray-900 tracking-tight">{formatCost(totals.cost)}</p>
+    <p className="text-[11px] font-semibold text-gray-500">
+      {totals.calls} call{totals.calls === 1 ? '' : 's'}{totals.failures > 0 && <span className="text-red-500"> · {totals.failures} failed</span>}
+    </p>
+    <p className="text-[11px] font-semibold text-gray-400">{formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out</p>
+  </div>
+);
+
+const TotalsTable: React.FC<{ label: string; rows: { key: string; totals: UsageTotals }[] }> = ({ label, rows }) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-[10px] font-black text-gray-400 uppercase tracking-widest text-left">
+        <th className="py-2 pr-2">{label}</th>
+        <th className="py-2 pr-2 text-right">Calls</th>
+        <th className="py-2 pr-2 text-right">Failed</th>
+        <th className="py-2 pr-2 text-right">Tokens in</th>
+        <th className="py-2 pr-2 text-right">Tokens out</th>
+        <th className="py-2 pr-2 text-right">Avg latency</th>
+        <th className="py-2 text-right">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(({ key, totals }) => (
+        <tr key={key} className="border-t border-gray-100 font-semibold text-gray-600">
+          <td className="py-2 pr-2 font-bold text-gray-800">
+            {key}
+            {totals.unpriced > 0 && <span className="ml-2 text-[10px] font-black text-yellow-600" title="Add this model to the price table to include it in the estimate">NO PRICE</span>}
+          </td>
+          <td className="py-2 pr-2 text-right">{totals.calls}</td>
+          <td className={`py-2 pr-2 text-right ${totals.failures ? 'text-red-500' : ''}`}>{totals.failures}</td>
+          <td className="py-2 pr-2 text-right">{formatTokens(totals.inputTokens)}</td>
+          <td className="py-2 pr-2 text-right">{formatTokens(totals.outputTokens)}</td>
+          <td className="py-2 pr-2 text-right">{(totals.latencyMs / totals.calls / 1000).toFixed(1)}s</td>
+          <td className="py-2 text-right font-black text-gray-800">{formatCost(totals.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Where the credits went: totals per day or month and per model, estimated from a configurable price table
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, prices, budget, onPricesChange, onBudgetChange, onClear, onClose }) => {
+  const [groupBy, setGroupBy] = useState<BudgetPeriod>('day');
+  const [budgetDraft, setBudgetDraft] = useState(budget ? String(budget.amount) : '');
+  const now = Date.now();
+
+  const inPeriod = (period: BudgetPeriod) => records.filter(record => getPeriodKey(record.timestamp, period) === getPeriodKey(now, period));
+  const spent = budget ? getPeriodSpend(records, prices, budget.period, now) : 0;
+
+  const commitBudget = (amountText: string, period: BudgetPeriod) => {
+    const amount = Number(amountText);
+    onBudgetChange(amountText.trim() && amount > 0 ? { amount, period } : null);
+  };
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+    onPricesChange(prices.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+
+  // Models that have been called but have no price yet, offered as one-click rows
+  const unpricedModels = [...new Set(records.map(record => record.model))].filter(model => !prices.some(p => p.model === model));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-8 py-6 border-b border-gray-100">
+          <h3 className="font-black text-xl tracking-tight">Usage</h3>
+          <button onClick={onClose} className="text-[10px] font-black text-gray-400 hover:text-gray-900">CLOSE</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SummaryCard title="Today" totals={sumUsage(inPeriod('day'), prices)} />
+            <SummaryCard title="This month" totals={sumUsage(inPeriod('month'), prices)} />
+            <SummaryCard title="All time" totals={sumUsage(records, prices)} />
+          </div>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Budget</h4>
+            <div className="flex flex-wrap items-center gap-2 text-xs font-bold text-gray-600">
+              Warn before running once the estimate passes $
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={budgetDraft}
+                onChange={(e) => setBudgetDraft(e.target.value)}
+                onBlur={() => commitBudget(budgetDraft, budget?.period ?? 'month')}
+                placeholder="no limit"
+                className={`${smallInputClass} w-24`}
+              />
+              <select
+                value={budget?.period ?? 'month'}
+                onChange={(e) => commitBudget(budgetDraft, e.target.value as BudgetPeriod)}
+                className={smallInputClass}
+              >
+                <option value="day">per day</option>
+                <option value="month">per month</option>
+              </select>
+            </div>
+            {budget && (
+              <div className="space-y-1">
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${spent >= budget.amount ? 'bg-red-500' : spent >= budget.amount * 0.8 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                    style={{ width: `${Math.min(100, (spent / budget.amount) * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[11px] font-semibold text-gray-500">
+                  {formatCost(spent)} of {formatCost(budget.amount)} {PERIOD_LABELS[budget.period]}
+                </p>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Totals</h4>
+              <div className="flex gap-1">
+                {(['day', 'month'] as BudgetPeriod[]).map(period => (
+                  <button
+                    key={period}
+                    onClick={() => setGroupBy(period)}
+                    className={`text-[10px] font-black px-3 py-1 rounded-full transition-colors ${groupBy === period ? 'bg-black text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    {period === 'day' ? 'DAILY' : 'MONTHLY'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {records.length === 0 ? (
+              <p className="text-sm font-bold text-gray-300">No calls recorded yet.</p>
+            ) : (
+              <TotalsTable label={groupBy === 'day' ? 'Day' : 'Month'} rows={groupUsage(records, prices, record => getPeriodKey(record.timestamp, groupBy))} />
+            )}
+          </section>
+
+          {records.length > 0 && (
+            <section className="space-y-3">
+              <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">By model</h4>
+              <TotalsTable label="Model" rows={groupUsage(records, prices, record => `${record.model} · ${record.kind}`)} />
+            </section>
+          )}
+
+          {records.length > 0 && (
+            <section className="space-y-3">
+              <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Recent calls</h4>
+              <div className="space-y-1">
+                {records.slice(0, RECENT_LIMIT).map(record => (
+                  <div key={record.id} className="flex items-center gap-3 text-[11px] font-semibold text-gray-500">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${record.success ? 'bg-green-500' : 'bg-red-500'}`} title={record.error ?? 'Succeeded'} />
+                    <span className="w-36 shrink-0">{new Date(record.timestamp).toLocaleString()}</span>
+                    <span className="flex-1 truncate text-gray-700">{record.model} · {record.kind}{record.error && <span className="text-red-500"> · {record.error}</span>}</span>
+                    <span className="w-24 text-right">{formatTokens(record.totalTokens)} tokens</span>
+                    <span className="w-12 text-right">{(record.latencyMs / 1000).toFixed(1)}s</span>
+                    <span className="w-16 text-right font-black text-gray-700">{formatCost(estimateCost(record, prices))}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Prices (USD per 1M tokens)</h4>
+            <div className="space-y-2">
+              {prices.map((price, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input value={price.model} onChange={(e) => updatePrice(i, { model: e.target.value.trim() })} placeholder="model id" className={`${smallInputClass} flex-1 font-mono`} />
+                  <label className="text-[10px] font-black text-gray-400">IN</label>
+                  <input type="number" min={0} step="0.01" value={price.inputPerMillion} onChange={(e) => updatePrice(i, { inputPerMillion: Math.max(0, Number(e.target.value)) })} className={`${smallInputClass} w-20`} />
+                  <label className="text-[10px] font-black text-gray-400">OUT</label>
+                  <input type="number" min={0} step="0.01" value={price.outputPerMillion} onChange={(e) => updatePrice(i, { outputPerMillion: Math.max(0, Number(e.target.value)) })} className={`${smallInputClass} w-20`} />
+                  <button onClick={() => onPricesChange(prices.filter((_, j) => j !== i))} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-1" title="Remove">✕</button>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => onPricesChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+                className="text-[10px] font-black text-blue-600 bg-blue-50 rounded-full px-4 py-2 hover:bg-blue-100 transition-colors"
+              >
+                + ADD MODEL
+              </button>
+              {unpricedModels.map(model => (
+                <button
+                  key={model}
+                  onClick={() => onPricesChange([...prices, { model, inputPerMillion: 0, outputPerMillion: 0 }])}
+                  className="text-[10px] font-black text-yellow-700 bg-yellow-50 rounded-full px-4 py-2 hover:bg-yellow-100 transition-colors"
+                >
+                  + {model}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] font-semibold text-gray-400">Costs are estimates from these prices. Check current Gemini API pricing and your billing console for actual charges.</p>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between px-8 py-4 border-t border-gray-100">
+          <p className="text-[11px] font-semibold text-gray-400">Recorded in this browser only.</p>
+          <button
+            onClick={onClear}
+            disabled={records.length === 0}
+            className="text-[10px] font-black text-gray-400 hover:text-red-500 transition-colors disabled:opacity-40"
+          >
+            CLEAR LOG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Variant, VariantSet } from '../types';
+
+interface VariantPickerProps {
+  set: VariantSet;
+  onPick: (variant: Variant) => void;
+  onToggleFavorite: (variant: Variant) => void;
+  onDiscard: (variant: Variant) => void;
+  onCompare: (variant: Variant) => void;
+  onClose: () => void;
+}
+
+// Grid of generated variants. Nothing reaches history until one is picked.
+const VariantPicker: React.FC<VariantPickerProps> = ({ set, onPick, onToggleFavorite, onDiscard, onCompare, onClose }) => (
+  <section className="bg-gray-50 rounded-[2.5rem] border border-gray-100 p-6 space-y-4">
+    <div className="flex items-center justify-between px-2">
+      <div>
+        <h3 className="font-black text-gray-400 uppercase tracking-widest text-[10px]">Pick a variant</h3>
+        <p className="text-xs font-semibold text-gray-500 line-clamp-1" title={set.prompt}>{set.prompt}</p>
+      </div>
+      <button onClick={onClose} className="text-[10px] font-black bg-gray-100 px-4 py-2 rounded-full hover:bg-gray-200 transition-colors">DISCARD ALL</button>
+    </div>
+    {set.failed > 0 && (
+      <p className="text-[10px] font-bold text-red-500 px-2">
+        {set.failed} of {set.requested} variants failed to generate.
+      </p>
+    )}
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      {set.variants.map((variant, i) => (
+        <div key={variant.id} className="bg-white rounded-[2rem] border border-gray-100 overflow-hidden group">
+          <button onClick={() => onCompare(variant)} className="relative w-full aspect-square bg-gray-100 flex items-center justify-center" title="Compare with the source">
+            <img src={variant.image} alt={`Variant ${i + 1}`} className="max-w-full max-h-full object-contain" />
+            <span className="absolute top-3 left-3 text-[10px] font-black bg-black/60 text-white px-3 py-1 rounded-full">#{i + 1}</span>
+          </button>
+          <div className="p-3 flex gap-2">
+            <button onClick={() => onPick(variant)} className="flex-1 text-[10px] font-black bg-black text-white rounded-full py-2 hover:bg-gray-800 transition-colors">USE THIS</button>
+            <button
+              onClick={() => onToggleFavorite(variant)}
+              className={`text-sm px-2 transition-colors ${variant.favorite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}`}
+              title={variant.favorite ? 'Unstar' : 'Star'}
+            >
+              ★
+            </button>
+            <button onClick={() => onDiscard(variant)} className="text-[10px] font-black text-gray-400 hover:text-red-500 px-2 transition-colors" title="Discard">✕</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  </section>
+);
+
+export default VariantPicker;
@@ -1,5 +1,5 @@
 
-import { EditingPreset } from './types';
+import { EditingPreset, Recipe } from './types';
 
 export const EDITING_PRESETS: EditingPreset[] = [
   {
@@ -7,8 +7,8 @@ export const EDITING_PRESETS: EditingPreset[] = [
     label: 'Restoration',
     icon: '✨',
     subPresets: [
-      { id: 'hd', label: 'Ultra HD Upscale', prompt: 'Upscale this image to 4K quality, removing all compression artifacts and sharpening edges.' },
-      { id: 'denoise', label: 'Remove Noise', prompt: 'Remove digital noise and grain while preserving important textures.' },
+      { id: 'hd', label: 'Ultra HD Upscale', prompt: 'Upscale this image to 4K quality, removing all compression artifacts and sharpening edges.', tileable: true },
+      { id: 'denoise', label: 'Remove Noise', prompt: 'Remove digital noise and grain while preserving important textures.', tileable: true },
       { id: 'scratch', label: 'Fix Scratches', prompt: 'Identify and remove physical scratches, dust, and tears from this old photograph.' },
       { id: 'color-old', label: 'Colorize B&W', prompt: 'Accurately colorize this black and white photo with realistic skin tones and environmental colors.' }
     ]
@@ -20,7 +20,20 @@ export const EDITING_PRESETS: EditingPreset[] = [
     subPresets: [
       { id: 'skin', label: 'Silk Skin', prompt: 'Apply professional skin retouching: remove blemishes, even out skin tone, and add a subtle glow.' },
       { id: 'teeth', label: 'Bright Smile', prompt: 'Naturally whiten the teeth and brighten the eyes of the subject.' },
-      { id: 'hair-blonde', label: 'Blonde Hair', prompt: 'Change the subject\'s hair color to a natural-looking golden blonde.' },
+      {
+        id: 'hair-blonde',
+        label: 'Hair Color',
+        prompt: 'Change the subject\'s hair color to a natural-looking {{shade}}.',
+        params: [
+          {
+            id: 'shade',
+            label: 'Shade',
+            type: 'enum',
+            options: ['golden blonde', 'platinum blonde', 'auburn', 'copper red', 'chestnut brown', 'jet black'],
+            default: 'golden blonde'
+          }
+        ]
+      },
       { id: 'hair-curly', label: 'Curly Hair', prompt: 'Change the hairstyle to thick, healthy curls while maintaining the face shape.' },
       { id: 'makeup', label: 'Glamour Makeup', prompt: 'Apply a sophisticated evening makeup look with winged eyeliner and matte lipstick.' }
     ]
@@ -31,9 +44,20 @@ export const EDITING_PRESETS: EditingPreset[] = [
     icon: '🌅',
     subPresets: [
       { id: 'golden', label: 'Golden Hour', prompt: 'Adjust the lighting to simulate the warm, soft glow of the sun just before sunset.' },
-      { id: 'winter', label: 'Winter Snow', prompt: 'Add realistic falling snow and a frosty atmosphere to the scene.' },
-      { id: 'tropical', label: 'Tropical Beach', prompt: 'Change the background to a pristine white-sand beach with turquoise water.' },
-      { id: 'night', label: 'City Night', prompt: 'Transform the scene into a vibrant night shot with blurred city lights in the background.' }
+      {
+        id: 'winter',
+        label: 'Winter Snow',
+        prompt: 'Add realistic falling snow and a frosty atmosphere to the scene. Snow intensity: {{intensity}} on a scale of 0 (a light dusting) to 100 (a heavy blizzard).',
+        params: [{ id: 'intensity', label: 'Intensity', type: 'slider', default: 50 }]
+      },
+      {
+        id: 'tropical',
+        label: 'Tropical Beach',
+        prompt: 'Change the background to a pristine white-sand beach with turquoise water. {{details}}',
+        params: [{ id: 'details', label: 'Extra details', type: 'text', default: '' }]
+      },
+      { id: 'night', label: 'City Night', prompt: 'Transform the scene into a vibrant night shot with blurred city lights in the background.' },
+      { id: 'plate', label: 'Reference Background', prompt: 'Replace the background of image 1 with the background plate, keeping the subject unchanged and relighting it to match.' }
     ]
   },
   {
@@ -45,7 +69,8 @@ export const EDITING_PRESETS: EditingPreset[] = [
       { id: 'sketch', label: 'Charcoal Sketch', prompt: 'Convert this image into a detailed charcoal and graphite pencil sketch.' },
       { id: 'pop', label: 'Pop Art', prompt: 'Apply a bold Andy Warhol style pop art effect with vibrant contrasting colors.' },
       { id: 'cyber', label: 'Cyberpunk 2077', prompt: 'Infuse the image with neon pink and blue lights, rain-slicked surfaces, and futuristic tech.' },
-      { id: 'vapor', label: 'Vaporwave', prompt: 'Apply a 90s vaporwave aesthetic with retro-glitch effects and pastel gradients.' }
+      { id: 'vapor', label: 'Vaporwave', prompt: 'Apply a 90s vaporwave aesthetic with retro-glitch effects and pastel gradients.' },
+      { id: 'style-match', label: 'Match Reference Style', prompt: 'Restyle image 1 to match the look of the style reference while keeping its content and composition.' }
     ]
   },
   {
@@ -53,10 +78,28 @@ export const EDITING_PRESETS: EditingPreset[] = [
     label: 'Lighting FX',
     icon: '💡',
     subPresets: [
-      { id: 'rim', label: 'Rim Lighting', prompt: 'Add a sharp, professional rim light around the subject to separate them from the background.' },
+      {
+        id: 'rim',
+        label: 'Rim Lighting',
+        prompt: 'Add a sharp, professional rim light in the color {{color}} around the subject to separate them from the background.',
+        params: [{ id: 'color', label: 'Light color', type: 'color', default: '#ffffff' }]
+      },
       { id: 'neon', label: 'Neon Glow', prompt: 'Make all light sources in the image glow with a vibrant neon intensity.' },
       { id: 'dramatic', label: 'Film Noir', prompt: 'Apply high-contrast black and white lighting with deep shadows and moody highlights.' },
       { id: 'cinematic', label: 'Hollywood Cine', prompt: 'Apply a teal and orange cinematic color grade used in blockbuster movies.' }
     ]
   }
 ];
+
+export const DEFAULT_RECIPES: Recipe[] = [
+  {
+    id: 'old-photo-rescue',
+    label: 'Old Photo Rescue',
+    steps: [{ presetId: 'scratch' }, { presetId: 'denoise' }, { presetId: 'color-old' }, { presetId: 'hd' }]
+  },
+  {
+    id: 'studio-portrait',
+    label: 'Studio Portrait',
+    steps: [{ presetId: 'skin' }, { presetId: 'teeth' }, { presetId: 'rim' }]
+  }
+];
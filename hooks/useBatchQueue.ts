@@ -0,0 +1,113 @@
+import { useRef, useState } from 'react';
+import JSZip from 'jszip';
+import { BatchJob } from '../types';
+import { runWithConcurrency, withRetry } from '../utils/async';
+import { downloadBlob } from '../utils/download';
+import { getErrorNotice, isCancelledError, isRetryableError } from '../utils/errors';
+import { getBase64Data, getMimeType, replaceExtension } from '../utils/image';
+import { getFilePath, readFileAsDataUrl } from '../utils/files';
+import { normalizeImage } from '../utils/preprocess';
+
+type EditFn = (source: string, mimeType: string, prompt: string, signal: AbortSignal) => Promise<string>;
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+
+export const useBatchQueue = (edit: EditFn) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) =>
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+
+  // Queues every file that decodes and returns the paths of those that didn't
+  const addFiles = async (files: File[]): Promise<string[]> => {
+    const results = await Promise.allSettled(files.map(async (file, index): Promise<BatchJob> => {
+      const source = await normalizeImage(await readFileAsDataUrl(file));
+      return {
+        id: `${Date.now()}-${index}`,
+        path: getFilePath(file),
+        source,
+        mimeType: getMimeType(source),
+        status: 'pending',
+        attempts: 0
+      };
+    }));
+    const added = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    setJobs(prev => [...prev, ...added]);
+    return results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return [];
+      console.error(`Failed to read ${getFilePath(files[i])}:`, result.reason);
+      return [getFilePath(files[i])];
+    });
+  };
+
+  const runJob = async (job: BatchJob, prompt: string, signal: AbortSignal) => {
+    // Jobs not started before a stop stay pending for the next run
+    if (signal.aborted) return;
+    updateJob(job.id, { status: 'running', error: undefined, attempts: 1 });
+    try {
+      const result = await withRetry(() => edit(job.source, job.mimeType, prompt, signal), {
+        retries: MAX_RETRIES,
+        baseDelayMs: BASE_RETRY_DELAY_MS,
+        shouldRetry: isRetryableError,
+        signal,
+        onRetry: (attempt, delayMs) => updateJob(job.id, {
+          attempts: attempt + 1,
+          error: `Retrying in ${Math.round(delayMs / 1000)}s`
+        })
+      });
+      updateJob(job.id, { status: 'done', result, error: undefined });
+    } catch (err) {
+      if (isCancelledError(err)) {
+        updateJob(job.id, { status: 'pending', error: undefined });
+        return;
+      }
+      const notice = getErrorNotice(err);
+      updateJob(job.id, { status: 'failed', error: `${notice.title}: ${notice.message}` });
+    }
+  };
+
+  // Processes every job that hasn't finished yet, including earlier failures
+  const run = async (prompt: string) => {
+    const queued = jobs.filter(job => job.status !== 'done');
+    if (!queued.length) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    queued.forEach(job => updateJob(job.id, { status: 'pending', error: undefined }));
+    try {
+      await runWithConcurrency(queued, concurrency, job => runJob(job, prompt, controller.signal));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  // Cancels the jobs in flight; finished results are kept
+  const stop = () => abortRef.current?.abort();
+
+  const removeJob = (id: string) => setJobs(prev => prev.filter(job => job.id !== id));
+
+  const clear = () => setJobs([]);
+
+  const downloadZip = async () => {
+    const zip = new JSZip();
+    const used = new Set<string>();
+    for (const job of jobs) {
+      if (!job.result) continue;
+      let name = replaceExtension(job.path, getMimeType(job.result));
+      // Two sources can share a base name but differ in extension (shot.jpg, shot.png)
+      for (let n = 2; used.has(name); n++) {
+        name = replaceExtension(job.path.replace(/(\.[^./]+)?$/, `-${n}$1`), getMimeType(job.result));
+      }
+      used.add(name);
+      zip.file(name, getBase64Data(job.result), { base64: true });
+    }
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), 'gemini-batch.zip');
+  };
+
+  return { jobs, concurrency, setConcurrency, isRunning, addFiles, run, stop, removeJob, clear, downloadZip };
+};
@@ -0,0 +1,81 @@
+// Thin promise wrapper around IndexedDB. Edited images are stored as base64
+// data URLs, which quickly outgrow the few megabytes localStorage allows.
+
+const DB_NAME = 'gemini-lens';
+const DB_VERSION = 2;
+
+export const STORES = {
+  history: 'history',
+  usage: 'usage',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        const store = db.createObjectStore(STORES.history, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(STORES.usage)) {
+        const store = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return wrap(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+export const get = async <T>(storeName: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return wrap(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+};
+
+export const put = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const db = await openDb();
+  await wrap(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const remove = async (storeName: StoreName, keys: string | string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  for (const key of Array.isArray(keys) ? keys : [keys]) {
+    store.delete(key);
+  }
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const clear = async (storeName: StoreName): Promise<void> => {
+  const db = await openDb();
+  await wrap(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+};
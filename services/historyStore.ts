@@ -0,0 +1,49 @@
+import { HistoryItem } from '../types';
+import { STORES, get, getAll, put, remove } from './db';
+
+const RETENTION_KEY = 'lens-history-limit';
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const HISTORY_LIMIT_OPTIONS = [10, 20, 50, 100];
+
+export const getHistoryLimit = (): number => {
+  const stored = Number(localStorage.getItem(RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_HISTORY_LIMIT;
+};
+
+export const setHistoryLimit = (limit: number) => {
+  localStorage.setItem(RETENTION_KEY, String(limit));
+};
+
+// Newest first, matching the order the panel renders in
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const items = await getAll<HistoryItem>(STORES.history);
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveHistoryItem = (item: HistoryItem) => put(STORES.history, item);
+
+// Patches a stored entry; entries deleted or pruned in the meantime are left alone
+export const updateHistoryItem = async (id: string, update: (item: HistoryItem) => Partial<HistoryItem>): Promise<HistoryItem | undefined> => {
+  const item = await get<HistoryItem>(STORES.history, id);
+  if (!item) return undefined;
+  const updated = { ...item, ...update(item) };
+  await put(STORES.history, updated);
+  return updated;
+};
+
+export const deleteHistoryItem = (id: string | string[]) => remove(STORES.history, id);
+
+// Keeps the newest `limit` entries plus everything in `keep`, which doesn't count towards the limit
+export const retainHistory = (items: HistoryItem[], limit: number, keep: Set<string> = new Set()): HistoryItem[] => {
+  let count = 0;
+  return items.filter(item => keep.has(item.id) || count++ < limit);
+};
+
+// Drops everything past the retention limit and returns what is left
+export const pruneHistory = async (items: HistoryItem[], limit: number, keep?: Set<string>): Promise<HistoryItem[]> => {
+  const kept = retainHistory(items, limit, keep);
+  const dropped = items.filter(item => !kept.includes(item)).map(item => item.id);
+  if (dropped.length) await remove(STORES.history, dropped);
+  return kept;
+};
@@ -0,0 +1,53 @@
+import { AnalysisCandidate, AnalysisIssue, AnalysisIssueKind, ImageAnalysis, ImageEditError } from './types';
+
+export const ANALYSIS_ISSUE_KINDS: AnalysisIssueKind[] = ['noise', 'scratches', 'faded-color', 'exposure', 'blur', 'other'];
+const SEVERITIES: AnalysisIssue['severity'][] = ['low', 'medium', 'high'];
+
+const MAX_SUGGESTIONS = 5;
+const MAX_TAGS = 12;
+
+export const buildAnalysisPrompt = (candidates: AnalysisCandidate[]) => [
+  'Analyze this photo for a photo editing app. Respond with JSON only.',
+  '- caption: one sentence describing the photo.',
+  '- tags: up to 12 short lowercase keywords (subjects, setting, style, colors) useful for searching.',
+  `- issues: technical problems you can see. kind is one of ${ANALYSIS_ISSUE_KINDS.join(', ')}; severity is low, medium or high.`,
+  `- suggestions: up to ${MAX_SUGGESTIONS} presets from the list below that would improve the photo, best first, each with a one-sentence reason. Use the exact id.`,
+  '',
+  'Presets:',
+  ...candidates.map(c => `${c.id}: ${c.label} (${c.prompt})`)
+].join('\n');
+
+// Validates model output against the expected shape and drops anything unusable,
+// including suggestions for preset ids that weren't offered.
+export const parseAnalysis = (json: string, candidates: AnalysisCandidate[]): ImageAnalysis => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new ImageEditError('unknown', 'The analysis could not be read.', { cause: err });
+  }
+
+  const validIds = new Set(candidates.map(c => c.id));
+  const seen = new Set<string>();
+  const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+  return {
+    caption: asString(data?.caption),
+    tags: (Array.isArray(data?.tags) ? data.tags : [])
+      .map((tag: unknown) => asString(tag).toLowerCase())
+      .filter((tag: string) => tag && !seen.has(tag) && seen.add(tag))
+      .slice(0, MAX_TAGS),
+    issues: (Array.isArray(data?.issues) ? data.issues : [])
+      .filter((issue: any) => ANALYSIS_ISSUE_KINDS.includes(issue?.kind))
+      .map((issue: any) => ({
+        kind: issue.kind,
+        severity: SEVERITIES.includes(issue.severity) ? issue.severity : 'medium',
+        description: asString(issue.description)
+      })),
+    suggestions: (Array.isArray(data?.suggestions) ? data.suggestions : [])
+      .filter((s: any) => validIds.has(s?.presetId))
+      .filter((s: any, i: number, all: any[]) => all.findIndex(o => o.presetId === s.presetId) === i)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((s: any) => ({ presetId: s.presetId, reason: asString(s.reason) }))
+  };
+};
@@ -0,0 +1,64 @@
+import { GenerateContentResponse } from "@google/genai";
+import { getAbortError, ImageEditError, SafetyRating } from './types';
+
+// Finish reasons that mean the model refused rather than failed
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_PROHIBITED_CONTENT'];
+
+const getStatus = (err: any): number | undefined => {
+  if (typeof err?.status === 'number') return err.status;
+  const match = String(err?.message ?? '').match(/\b([45]\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Maps a thrown SDK/fetch error onto the provider error model
+export const classifyGeminiError = (err: any, signal?: AbortSignal): ImageEditError => {
+  if (err instanceof ImageEditError) return err;
+  const message: string = err?.message || 'Gemini request failed.';
+  const status = getStatus(err);
+  const details = { status, cause: err };
+
+  if (signal?.aborted) return getAbortError(signal);
+  if (err?.name === 'AbortError') {
+    return new ImageEditError('cancelled', 'The edit was cancelled.', details);
+  }
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return new ImageEditError('timeout', message, details);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new ImageEditError('quota', message, details);
+  }
+  if (/billing/i.test(message)) {
+    return new ImageEditError('billing', message, details);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i.test(message)) {
+    return new ImageEditError('auth', message, details);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ImageEditError('unavailable', message, details);
+  }
+  if (err instanceof TypeError || /Failed to fetch|NetworkError|network/i.test(message)) {
+    return new ImageEditError('network', message, details);
+  }
+  return new ImageEditError('unknown', message, details);
+};
+
+const getSafetyRatings = (ratings?: { category?: string; probability?: string; blocked?: boolean }[]): SafetyRating[] =>
+  (ratings ?? [])
+    .filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+    .map(rating => ({ category: String(rating.category), probability: rating.probability, blocked: rating.blocked }));
+
+// Explains a response that carried no image: a safety block, or the model simply answering in text
+export const getMissingImageError = (response: GenerateContentResponse, text: string): ImageEditError => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    return new ImageEditError('safety', response.promptFeedback?.blockReasonMessage || text || 'The request was blocked by safety filters.', {
+      blockReason,
+      finishReason,
+      safetyRatings: getSafetyRatings([...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])]),
+    });
+  }
+  return new ImageEditError('no-image', text || 'Gemini returned no image.', { finishReason });
+};
@@ -0,0 +1,179 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { getBase64Data } from '../../utils/image';
+import { ANALYSIS_ISSUE_KINDS, buildAnalysisPrompt, parseAnalysis } from './analysis';
+import { classifyGeminiError, getMissingImageError } from './geminiErrors';
+import { ImageAnalysisRequest, ImageEditError, ImageEditProvider, ImageEditReference, ImageEditRequest, ImageEditUsage, throwIfAborted } from './types';
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const DEFAULT_GEMINI_ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    caption: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ANALYSIS_ISSUE_KINDS },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          description: { type: Type.STRING },
+        },
+        required: ['kind', 'severity', 'description'],
+      },
+    },
+    suggestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          presetId: { type: Type.STRING },
+          reason: { type: Type.STRING },
+        },
+        required: ['presetId', 'reason'],
+      },
+    },
+  },
+  required: ['caption', 'tags', 'issues', 'suggestions'],
+};
+
+const MASK_INSTRUCTION = "The last image is a mask. Apply the edit only to the area that is white in the mask and leave everything in the black area exactly as it is.";
+
+// Images are sent as source, references, then mask, so references are always "image 2" onwards
+const buildPrompt = (prompt: string, mask?: string, references: ImageEditReference[] = []) => {
+  const sections = [prompt];
+  if (references.length) {
+    sections.push([
+      'Image 1 is the photo to edit. The following images are references:',
+      ...references.map((ref, i) => `Image ${i + 2}: ${ref.instruction}`)
+    ].join('\n'));
+  }
+  if (mask) sections.push(MASK_INSTRUCTION);
+  return sections.join('\n\n');
+};
+
+// Last non-empty line of the streamed text, short enough for a status label
+const getStatusLine = (text: string) => {
+  const line = text.trim().split('\n').pop()?.trim() ?? '';
+  return line.length > 80 ? `${line.slice(0, 77)}…` : line || 'Thinking';
+};
+
+const getUsage = ({ usageMetadata }: GenerateContentResponse): ImageEditUsage => ({
+  inputTokens: usageMetadata?.promptTokenCount ?? 0,
+  outputTokens: (usageMetadata?.candidatesTokenCount ?? 0) + (usageMetadata?.thoughtsTokenCount ?? 0),
+  totalTokens: usageMetadata?.totalTokenCount ?? 0,
+  metadata: usageMetadata && JSON.parse(JSON.stringify(usageMetadata)),
+});
+
+interface GeminiProviderOptions {
+  model: string;
+  // Text model used by analyze(); the image model can't return structured JSON
+  analysisModel: string;
+  getApiKey: () => string;
+}
+
+export const createGeminiProvider = ({ model, analysisModel, getApiKey }: GeminiProviderOptions): ImageEditProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  model,
+  analysisModel,
+  edit: async ({ image, mimeType, prompt, mask, references, signal, onProgress, onUsage }: ImageEditRequest) => {
+    throwIfAborted(signal);
+    // CRITICAL: Create a NEW instance right before the call to ensure it uses the most up-to-date API key
+    const ai = new GoogleGenAI({ apiKey: getApiKey() });
+    const params = {
+      model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: getBase64Data(image),
+              mimeType,
+            },
+          },
+          ...(references ?? []).map(ref => ({ inlineData: { data: getBase64Data(ref.image), mimeType: ref.mimeType } })),
+          // The mask goes last so the prompt can refer to it as "the last image"
+          ...(mask ? [{ inlineData: { data: getBase64Data(mask), mimeType: 'image/png' } }] : []),
+          {
+            text: buildPrompt(prompt, mask, references),
+          },
+        ],
+      },
+      config: { abortSignal: signal },
+    };
+
+    const images: string[] = [];
+    let text = '';
+    const collect = (chunk: GenerateContentResponse) => {
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          images.push(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+          onProgress?.(`Received image ${images.length}`);
+        } else if (part.text) {
+          text += part.text;
+          onProgress?.(getStatusLine(text));
+        }
+      }
+    };
+
+    let response: GenerateContentResponse | undefined;
+    try {
+      if (onProgress) {
+        // Streaming lets us surface the model's interim text while the image renders
+        onProgress('Sending to Gemini');
+        const stream = await ai.models.generateContentStream(params);
+        onProgress('Waiting for the model');
+        let promptFeedback: GenerateContentResponse['promptFeedback'];
+        for await (const chunk of stream) {
+          collect(chunk);
+          promptFeedback = chunk.promptFeedback ?? promptFeedback;
+          response = chunk;
+        }
+        // Block feedback arrives on the first chunk; finish reasons and total usage on the last
+        if (response && !response.promptFeedback) response.promptFeedback = promptFeedback;
+      } else {
+        response = await ai.models.generateContent(params);
+        collect(response);
+      }
+    } catch (err) {
+      throw classifyGeminiError(err, signal);
+    }
+
+    // Reported before the image check: a response without an image is still billed
+    if (response) onUsage?.(getUsage(response));
+    if (!images.length) {
+      throw getMissingImageError(response ?? new GenerateContentResponse(), text);
+    }
+    return { images, text: text || undefined };
+  },
+  analyze: async ({ image, mimeType, candidates, signal, onUsage }: ImageAnalysisRequest) => {
+    throwIfAborted(signal);
+    const ai = new GoogleGenAI({ apiKey: getApiKey() });
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: analysisModel,
+        contents: {
+          parts: [
+            { inlineData: { data: getBase64Data(image), mimeType } },
+            { text: buildAnalysisPrompt(candidates) },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: ANALYSIS_SCHEMA,
+        },
+      });
+    } catch (err) {
+      throw classifyGeminiError(err, signal);
+    }
+    onUsage?.(getUsage(response));
+    if (!response.text) {
+      throw new ImageEditError('unknown', 'The model returned no analysis. Try again.');
+    }
+    return parseAnalysis(response.text, candidates);
+  },
+});
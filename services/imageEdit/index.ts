@@ -0,0 +1,35 @@
+import { createGeminiProvider, DEFAULT_GEMINI_ANALYSIS_MODEL, DEFAULT_GEMINI_IMAGE_MODEL } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ImageEditProvider, ImageEditProviderId } from './types';
+
+export * from './types';
+
+// Local override so developers can switch to the mock backend without rebuilding
+const PROVIDER_KEY = 'lens-image-provider';
+
+export const IMAGE_EDIT_PROVIDERS: { id: ImageEditProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'mock', label: 'Mock (offline)' },
+];
+
+const isProviderId = (value: unknown): value is ImageEditProviderId =>
+  IMAGE_EDIT_PROVIDERS.some(provider => provider.id === value);
+
+export const getImageEditProviderId = (): ImageEditProviderId => {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  if (isProviderId(stored)) return stored;
+  return isProviderId(process.env.IMAGE_EDIT_PROVIDER) ? process.env.IMAGE_EDIT_PROVIDER : 'gemini';
+};
+
+export const setImageEditProviderId = (id: ImageEditProviderId) => {
+  localStorage.setItem(PROVIDER_KEY, id);
+};
+
+export const getImageEditProvider = (id: ImageEditProviderId = getImageEditProviderId()): ImageEditProvider => {
+  if (id === 'mock') return createMockProvider();
+  return createGeminiProvider({
+    model: process.env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_IMAGE_MODEL,
+    analysisModel: process.env.GEMINI_ANALYSIS_MODEL || DEFAULT_GEMINI_ANALYSIS_MODEL,
+    getApiKey: () => process.env.API_KEY as string,
+  });
+};
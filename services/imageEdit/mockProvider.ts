@@ -0,0 +1,114 @@
+import { sleep } from '../../utils/async';
+import { createCanvas, loadImage } from '../../utils/image';
+import { AnalysisIssue, ImageAnalysisRequest, ImageEditProvider, ImageEditRequest, PresetSuggestion, throwIfAborted } from './types';
+
+// Keyword → canvas filter. The first match wins; unmatched prompts fall back to a
+// hue shift derived from the prompt text, so the same prompt always gives the same result.
+const FILTER_RULES: [RegExp, string][] = [
+  [/black and white|noir|charcoal|sketch|graphite/i, 'grayscale(1) contrast(1.4)'],
+  [/colori[sz]e|vibrant|pop art|neon/i, 'saturate(2) contrast(1.1)'],
+  [/golden|sunset|warm|oil painting/i, 'sepia(0.5) saturate(1.4) brightness(1.05)'],
+  [/snow|winter|frost/i, 'brightness(1.2) saturate(0.6) hue-rotate(180deg)'],
+  [/night|cyberpunk|vaporwave/i, 'brightness(0.7) hue-rotate(220deg) saturate(1.6)'],
+  [/noise|grain|smooth|skin/i, 'blur(1px)'],
+  [/upscale|sharpen|4k|hd/i, 'contrast(1.2) saturate(1.1)'],
+  [/cinematic|teal and orange/i, 'contrast(1.25) sepia(0.3) hue-rotate(-15deg)'],
+];
+
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+export const getMockFilter = (prompt: string): string =>
+  FILTER_RULES.find(([pattern]) => pattern.test(prompt))?.[1] ?? `hue-rotate(${hash(prompt) % 360}deg)`;
+
+// Average brightness, saturation and pixel-to-pixel variation (a rough noise/detail proxy), all 0–1
+const measure = async (image: string) => {
+  const img = await loadImage(image);
+  const scale = Math.min(1, 128 / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let brightness = 0, saturation = 0, variation = 0;
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    const min = Math.min(data[i], data[i + 1], data[i + 2]);
+    brightness += (data[i] + data[i + 1] + data[i + 2]) / 765;
+    saturation += max ? (max - min) / max : 0;
+    if (i >= 4) variation += Math.abs(data[i] - data[i - 4]) / 255;
+  }
+  return { brightness: brightness / pixels, saturation: saturation / pixels, variation: variation / pixels, width: img.naturalWidth };
+};
+
+// Offline stand-in for development: applies canvas filters instead of calling a model
+export const createMockProvider = (latencyMs = 800): ImageEditProvider => ({
+  id: 'mock',
+  label: 'Mock (offline)',
+  model: 'mock-canvas-filters',
+  analysisModel: 'mock-canvas-stats',
+  edit: async ({ image, prompt, references, signal, onProgress }: ImageEditRequest) => {
+    throwIfAborted(signal);
+    onProgress?.('Thinking about the edit');
+    await sleep(latencyMs / 2, signal);
+    onProgress?.(`Applying ${getMockFilter(prompt)}`);
+    await sleep(latencyMs / 2, signal);
+
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = getMockFilter(prompt);
+    ctx.drawImage(img, 0, 0);
+
+    // Stack reference thumbnails in the bottom-right corner so it's visible they were sent
+    ctx.filter = 'none';
+    const thumb = Math.round(Math.min(img.naturalWidth, img.naturalHeight) / 5);
+    for (const [i, ref] of (references ?? []).entries()) {
+      const refImg = await loadImage(ref.image);
+      const scale = thumb / Math.max(refImg.naturalWidth, refImg.naturalHeight);
+      const w = refImg.naturalWidth * scale;
+      const h = refImg.naturalHeight * scale;
+      ctx.drawImage(refImg, img.naturalWidth - w - 8, img.naturalHeight - (thumb + 8) * (i + 1) + (thumb - h), w, h);
+    }
+    throwIfAborted(signal);
+    return { images: [canvas.toDataURL('image/png')], text: `Applied ${getMockFilter(prompt)}` };
+  },
+  // Rule-based stand-in for the model: the same image always gets the same analysis
+  analyze: async ({ image, candidates, signal }: ImageAnalysisRequest) => {
+    throwIfAborted(signal);
+    await sleep(latencyMs / 2, signal);
+    const { brightness, saturation, variation, width } = await measure(image);
+
+    const issues: AnalysisIssue[] = [];
+    const suggestions: PresetSuggestion[] = [];
+    if (saturation < 0.08) {
+      issues.push({ kind: 'faded-color', severity: 'high', description: 'The photo has almost no color.' });
+      suggestions.push({ presetId: 'color-old', reason: 'It looks black and white, so colorizing would bring it back to life.' });
+    } else if (saturation < 0.2) {
+      issues.push({ kind: 'faded-color', severity: 'medium', description: 'Colors look washed out.' });
+      suggestions.push({ presetId: 'cinematic', reason: 'A color grade would restore some punch.' });
+    }
+    if (brightness < 0.3 || brightness > 0.8) {
+      issues.push({ kind: 'exposure', severity: 'medium', description: brightness < 0.3 ? 'The photo is underexposed.' : 'The photo is overexposed.' });
+      suggestions.push({ presetId: 'golden', reason: 'Relighting would even out the exposure.' });
+    }
+    if (variation > 0.12) {
+      issues.push({ kind: 'noise', severity: variation > 0.2 ? 'high' : 'medium', description: 'There is visible grain or noise.' });
+      suggestions.push({ presetId: 'denoise', reason: 'Removing the noise would clean up flat areas.' });
+    }
+    if (width < 1024) {
+      issues.push({ kind: 'blur', severity: 'low', description: `At ${width}px wide, the photo is small and soft.` });
+      suggestions.push({ presetId: 'hd', reason: 'Upscaling would add resolution and sharpen edges.' });
+    }
+
+    throwIfAborted(signal);
+    const validIds = new Set(candidates.map(c => c.id));
+    return {
+      caption: `A ${brightness < 0.4 ? 'dark' : brightness > 0.7 ? 'bright' : 'balanced'} ${saturation < 0.08 ? 'monochrome' : 'color'} photo.`,
+      tags: [saturation < 0.08 ? 'monochrome' : 'color', brightness < 0.4 ? 'dark' : brightness > 0.7 ? 'bright' : 'balanced', width < 1024 ? 'small' : 'large'],
+      issues,
+      suggestions: suggestions.filter(s => validIds.has(s.presetId))
+    };
+  },
+});
@@ -0,0 +1,148 @@
+export type ImageEditProviderId = 'gemini' | 'mock';
+
+export interface ImageEditReference {
+  // Data URL
+  image: string;
+  mimeType: string;
+  // What the model should take from this image, e.g. "apply its color grade to image 1"
+  instruction: string;
+}
+
+export interface ImageEditRequest {
+  // Source image as a data URL
+  image: string;
+  mimeType: string;
+  prompt: string;
+  // Optional white-on-black region mask, same aspect ratio as the source
+  mask?: string;
+  // Extra images the prompt can refer to by number
+  references?: ImageEditReference[];
+  signal?: AbortSignal;
+  // Interim status for the UI, e.g. text the model streams before the image arrives
+  onProgress?: (status: string) => void;
+  // Called once a response arrives, even when it turns out to be unusable
+  onUsage?: (usage: ImageEditUsage) => void;
+}
+
+// Token counts the backend reported for one call
+export interface ImageEditUsage {
+  inputTokens: number;
+  // Includes thinking tokens, which are billed as output
+  outputTokens: number;
+  totalTokens: number;
+  // The backend's usage metadata as received
+  metadata?: Record<string, unknown>;
+}
+
+export interface ImageEditResult {
+  // Data URLs of every image the backend returned, best first
+  images: string[];
+  text?: string;
+}
+
+export type AnalysisIssueKind = 'noise' | 'scratches' | 'faded-color' | 'exposure' | 'blur' | 'other';
+
+export interface AnalysisIssue {
+  kind: AnalysisIssueKind;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+}
+
+export interface PresetSuggestion {
+  presetId: string;
+  reason: string;
+}
+
+export interface ImageAnalysis {
+  caption: string;
+  tags: string[];
+  issues: AnalysisIssue[];
+  // Best first; only ids from the request's candidates
+  suggestions: PresetSuggestion[];
+}
+
+// A sub-preset the analysis may recommend
+export interface AnalysisCandidate {
+  id: string;
+  label: string;
+  prompt: string;
+}
+
+export interface ImageAnalysisRequest {
+  image: string;
+  mimeType: string;
+  candidates: AnalysisCandidate[];
+  signal?: AbortSignal;
+  onUsage?: (usage: ImageEditUsage) => void;
+}
+
+export interface ImageEditProvider {
+  id: ImageEditProviderId;
+  label: string;
+  model: string;
+  analysisModel: string;
+  edit: (request: ImageEditRequest) => Promise<ImageEditResult>;
+  // Text-only pass over the image: caption, problems found and which presets would help
+  analyze: (request: ImageAnalysisRequest) => Promise<ImageAnalysis>;
+}
+
+export type ImageEditErrorKind =
+  | 'auth'
+  | 'billing'
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'network'
+  | 'unavailable'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+// Transient failures that are worth repeating without changing anything
+const RETRYABLE_KINDS: ImageEditErrorKind[] = ['quota', 'network', 'unavailable'];
+
+export interface SafetyRating {
+  category: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+export interface ImageEditErrorDetails {
+  status?: number;
+  finishReason?: string;
+  blockReason?: string;
+  safetyRatings?: SafetyRating[];
+  cause?: unknown;
+}
+
+export class ImageEditError extends Error {
+  readonly kind: ImageEditErrorKind;
+  readonly status?: number;
+  readonly finishReason?: string;
+  readonly blockReason?: string;
+  readonly safetyRatings: SafetyRating[];
+  readonly cause?: unknown;
+
+  constructor(kind: ImageEditErrorKind, message: string, details: ImageEditErrorDetails = {}) {
+    super(message);
+    this.name = 'ImageEditError';
+    this.kind = kind;
+    this.status = details.status;
+    this.finishReason = details.finishReason;
+    this.blockReason = details.blockReason;
+    this.safetyRatings = details.safetyRatings ?? [];
+    this.cause = details.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Callers abort with an ImageEditError reason to say why (e.g. a timeout); anything else is a cancel
+export const getAbortError = (signal?: AbortSignal): ImageEditError =>
+  signal?.reason instanceof ImageEditError ? signal.reason : new ImageEditError('cancelled', 'The edit was cancelled.');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw getAbortError(signal);
+};
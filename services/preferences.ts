@@ -0,0 +1,60 @@
+// Small editor settings that persist across sessions
+const VARIANT_COUNT_KEY = 'lens-variant-count';
+
+export const VARIANT_COUNT_OPTIONS = [1, 2, 3, 4];
+
+export const getVariantCount = (): number => {
+  const stored = Number(localStorage.getItem(VARIANT_COUNT_KEY));
+  return VARIANT_COUNT_OPTIONS.includes(stored) ? stored : 1;
+};
+
+export const setVariantCount = (count: number) => {
+  localStorage.setItem(VARIANT_COUNT_KEY, String(count));
+};
+
+const MAX_EDGE_KEY = 'lens-max-edge';
+
+// Longest edge sent to the backend, in px. 0 sends images at full size.
+export const MAX_EDGE_OPTIONS = [0, 1024, 1536, 2048, 3072];
+export const DEFAULT_MAX_EDGE = 2048;
+
+export const getMaxEdge = (): number => {
+  const stored = localStorage.getItem(MAX_EDGE_KEY);
+  return stored !== null && MAX_EDGE_OPTIONS.includes(Number(stored)) ? Number(stored) : DEFAULT_MAX_EDGE;
+};
+
+export const setMaxEdge = (maxEdge: number) => {
+  localStorage.setItem(MAX_EDGE_KEY, String(maxEdge));
+};
+
+const TILED_MODE_KEY = 'lens-tiled-mode';
+
+export const getTiledMode = (): boolean => localStorage.getItem(TILED_MODE_KEY) === 'true';
+
+export const setTiledMode = (enabled: boolean) => {
+  localStorage.setItem(TILED_MODE_KEY, String(enabled));
+};
+
+const EDIT_TIMEOUT_KEY = 'lens-edit-timeout';
+
+// Seconds a single backend request may take. 0 waits indefinitely.
+export const EDIT_TIMEOUT_OPTIONS = [30, 60, 120, 300, 0];
+export const DEFAULT_EDIT_TIMEOUT = 120;
+
+export const getEditTimeout = (): number => {
+  const stored = localStorage.getItem(EDIT_TIMEOUT_KEY);
+  return stored !== null && EDIT_TIMEOUT_OPTIONS.includes(Number(stored)) ? Number(stored) : DEFAULT_EDIT_TIMEOUT;
+};
+
+export const setEditTimeout = (seconds: number) => {
+  localStorage.setItem(EDIT_TIMEOUT_KEY, String(seconds));
+};
+
+const AUTO_TAG_KEY = 'lens-auto-tag';
+
+// Analyze each new result in the background so history entries get a caption and tags
+export const getAutoTag = (): boolean => localStorage.getItem(AUTO_TAG_KEY) === 'true';
+
+export const setAutoTag = (enabled: boolean) => {
+  localStorage.setItem(AUTO_TAG_KEY, String(enabled));
+};
@@ -0,0 +1,240 @@
+import { EditingPreset, PresetParam, SubPreset } from '../types';
+
+const CUSTOM_PRESETS_KEY = 'lens-custom-presets';
+
+export const PRESET_FILE_FORMAT = 'gemini-lens-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: EditingPreset[];
+}
+
+// 'rename' keeps both sides by giving imported entries fresh ids; 'replace' overwrites custom entries with the same id
+export type ImportStrategy = 'rename' | 'replace';
+
+export class PresetImportError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'PresetImportError';
+    this.issues = issues;
+  }
+}
+
+export const loadCustomPresets = (): EditingPreset[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_PRESETS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Failed to read custom presets:", err);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: EditingPreset[]) => {
+  localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 24) || 'preset';
+
+// Ids are shared by recipes and history entries, so they must be unique across every category
+export const collectIds = (presets: EditingPreset[]) => {
+  const ids = new Set<string>();
+  for (const category of presets) {
+    ids.add(category.id);
+    category.subPresets.forEach(sub => ids.add(sub.id));
+  }
+  return ids;
+};
+
+export const createUniqueId = (label: string, taken: Set<string>): string => {
+  const base = `custom-${slugify(label)}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+// Copies a category (built-in or custom) with fresh ids for it and every sub-preset
+export const duplicateCategory = (category: EditingPreset, all: EditingPreset[]): EditingPreset => {
+  const taken = collectIds(all);
+  return {
+    ...category,
+    id: createUniqueId(category.label, taken),
+    label: `${category.label} (copy)`,
+    subPresets: category.subPresets.map(sub => ({ ...sub, id: createUniqueId(sub.label, taken) }))
+  };
+};
+
+export const serializePresets = (presets: EditingPreset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const PARAM_TYPES = ['enum', 'color', 'slider', 'text'];
+
+const validateParam = (value: any, path: string, issues: string[]) => {
+  if (!value || typeof value !== 'object') {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(value.id) || !/^[\w-]+$/.test(value.id)) issues.push(`${path}.id must contain only letters, digits, - or _`);
+  if (!isNonEmptyString(value.label)) issues.push(`${path}.label must be a non-empty string`);
+  if (!PARAM_TYPES.includes(value.type)) {
+    issues.push(`${path}.type must be one of ${PARAM_TYPES.join(', ')}`);
+    return;
+  }
+  if (value.type === 'slider') {
+    if (typeof value.default !== 'number' || value.default < 0 || value.default > 100) issues.push(`${path}.default must be a number from 0 to 100`);
+  } else if (typeof value.default !== 'string') {
+    issues.push(`${path}.default must be a string`);
+  }
+  if (value.type === 'enum') {
+    if (!Array.isArray(value.options) || !value.options.length || !value.options.every(isNonEmptyString)) {
+      issues.push(`${path}.options must be a non-empty list of strings`);
+    } else if (!value.options.includes(value.default)) {
+      issues.push(`${path}.default must be one of its options`);
+    }
+  }
+};
+
+const validateSubPreset = (value: any, path: string, issues: string[]): value is SubPreset => {
+  const before = issues.length;
+  if (!value || typeof value !== 'object') {
+    issues.push(`${path} must be an object`);
+    return false;
+  }
+  if (!isNonEmptyString(value.id)) issues.push(`${path}.id must be a non-empty string`);
+  if (!isNonEmptyString(value.label)) issues.push(`${path}.label must be a non-empty string`);
+  if (!isNonEmptyString(value.prompt)) issues.push(`${path}.prompt must be a non-empty string`);
+  if (value.tileable !== undefined && typeof value.tileable !== 'boolean') issues.push(`${path}.tileable must be a boolean`);
+  if (value.params !== undefined) {
+    if (!Array.isArray(value.params)) {
+      issues.push(`${path}.params must be an array`);
+    } else {
+      value.params.forEach((param: unknown, i: number) => validateParam(param, `${path}.params[${i}]`, issues));
+      const ids = value.params.map((param: any) => param?.id);
+      if (new Set(ids).size !== ids.length) issues.push(`${path}.params must have unique ids`);
+    }
+  }
+  return issues.length === before;
+};
+
+const validateCategory = (value: any, path: string, issues: string[]): value is EditingPreset => {
+  const before = issues.length;
+  if (!value || typeof value !== 'object') {
+    issues.push(`${path} must be an object`);
+    return false;
+  }
+  if (!isNonEmptyString(value.id)) issues.push(`${path}.id must be a non-empty string`);
+  if (!isNonEmptyString(value.label)) issues.push(`${path}.label must be a non-empty string`);
+  if (typeof value.icon !== 'string') issues.push(`${path}.icon must be a string`);
+  if (!Array.isArray(value.subPresets)) {
+    issues.push(`${path}.subPresets must be an array`);
+  } else {
+    value.subPresets.forEach((sub: unknown, i: number) => validateSubPreset(sub, `${path}.subPresets[${i}]`, issues));
+  }
+  return issues.length === before;
+};
+
+// The checks parsePresetFile applies, for catching problems before presets are exported
+export const validatePresets = (presets: EditingPreset[]): string[] => {
+  const issues: string[] = [];
+  presets.forEach((category, i) => validateCategory(category, `presets[${i}]`, issues));
+  return issues;
+};
+
+const pickParamFields = (param: PresetParam): PresetParam =>
+  param.type === 'enum'
+    ? { id: param.id, label: param.label, type: param.type, options: [...param.options], default: param.default }
+    : ({ id: param.id, label: param.label, type: param.type, default: param.default } as PresetParam);
+
+// Parses and validates an exported preset file. Throws PresetImportError listing every problem found.
+export const parsePresetFile = (json: string): EditingPreset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('The file is not valid JSON.');
+  }
+
+  if (data?.format !== PRESET_FILE_FORMAT) {
+    throw new PresetImportError('This is not a Gemini Lens preset file.');
+  }
+  if (typeof data.version !== 'number' || data.version > PRESET_FILE_VERSION) {
+    throw new PresetImportError(`Unsupported preset file version ${data.version}. This app reads version ${PRESET_FILE_VERSION}.`);
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new PresetImportError('The file contains no presets.');
+  }
+
+  const issues: string[] = [];
+  data.presets.forEach((category: unknown, i: number) => validateCategory(category, `presets[${i}]`, issues));
+  if (issues.length) {
+    throw new PresetImportError('The preset file is malformed.', issues);
+  }
+
+  // Keep only the known fields so stray data doesn't end up in storage
+  return (data.presets as EditingPreset[]).map(category => ({
+    id: category.id,
+    label: category.label,
+    icon: category.icon,
+    subPresets: category.subPresets.map(sub => ({
+      id: sub.id,
+      label: sub.label,
+      prompt: sub.prompt,
+      ...(sub.params?.length ? { params: sub.params.map(pickParamFields) } : {}),
+      ...(sub.tileable ? { tileable: true } : {})
+    }))
+  }));
+};
+
+// Merges imported categories into the custom list. Built-in ids are never overwritten.
+export const mergeImportedPresets = (
+  custom: EditingPreset[],
+  builtIn: EditingPreset[],
+  imported: EditingPreset[],
+  strategy: ImportStrategy
+): { presets: EditingPreset[]; renamed: number } => {
+  let result = [...custom];
+  let renamed = 0;
+
+  for (const category of imported) {
+    const replaceIndex = strategy === 'replace' ? result.findIndex(c => c.id === category.id) : -1;
+    const others = replaceIndex >= 0 ? result.filter((_, i) => i !== replaceIndex) : result;
+    const taken = collectIds([...builtIn, ...others]);
+
+    const rename = (id: string, label: string) => {
+      if (!taken.has(id)) {
+        taken.add(id);
+        return id;
+      }
+      renamed++;
+      return createUniqueId(label, taken);
+    };
+
+    const next: EditingPreset = {
+      ...category,
+      id: rename(category.id, category.label),
+      subPresets: category.subPresets.map(sub => ({ ...sub, id: rename(sub.id, sub.label) }))
+    };
+
+    result = replaceIndex >= 0
+      ? [...others.slice(0, replaceIndex), next, ...others.slice(replaceIndex)]
+      : [...others, next];
+  }
+
+  return { presets: result, renamed };
+};
@@ -0,0 +1,240 @@
+import JSZip from 'jszip';
+import { HistoryItem, PresetParamValues, ReferenceImage } from '../types';
+import { getBase64Data, getExtension, getMimeType } from '../utils/image';
+import { REFERENCE_ROLES } from '../utils/references';
+
+// A project is a zip holding manifest.json plus every image under assets/.
+// In the manifest, images are replaced by "asset:<path>" strings; identical images are stored once.
+// Other strings that start with "asset:" or a backslash get a leading backslash so they read back as text.
+export const PROJECT_FILE_FORMAT = 'gemini-lens-project';
+export const PROJECT_FILE_VERSION = 1;
+
+const MANIFEST_NAME = 'manifest.json';
+const ASSET_PREFIX = 'asset:';
+const ESCAPE = '\\';
+
+// Everything needed to put the editor back the way it was
+export interface ProjectWorkspace {
+  image: string | null;
+  sourceName: string | null;
+  editedImage: string | null;
+  currentNodeId: string | null;
+  tipNodeId: string | null;
+  continueFromResult: boolean;
+  selectedSubPresetId: string | null;
+  presetParams: PresetParamValues;
+  customPrompt: string;
+  references: ReferenceImage[];
+  mask: string | null;
+  maskFeather: number;
+  history: HistoryItem[];
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  workspace: ProjectWorkspace;
+}
+
+export class ProjectFileError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+const isImageDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:image/');
+
+// Deep-copies a JSON value, passing every string through `fn`
+const mapStrings = (value: unknown, fn: (text: string) => string): unknown => {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+};
+
+const escapeLiteral = (text: string) => (text.startsWith(ASSET_PREFIX) || text.startsWith(ESCAPE) ? `${ESCAPE}${text}` : text);
+
+export const createProjectFile = async (workspace: ProjectWorkspace): Promise<Blob> => {
+  const zip = new JSZip();
+  const paths = new Map<string, string>();
+
+  const toAsset = (text: string) => {
+    if (!isImageDataUrl(text)) return escapeLiteral(text);
+    let path = paths.get(text);
+    if (!path) {
+      path = `assets/${String(paths.size + 1).padStart(4, '0')}.${getExtension(getMimeType(text))}`;
+      paths.set(text, path);
+      zip.file(path, getBase64Data(text), { base64: true });
+    }
+    return `${ASSET_PREFIX}${path}`;
+  };
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    workspace: mapStrings(workspace, toAsset) as ProjectWorkspace
+  };
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonEmptyString = (value: unknown): value is string => isString(value) && value.length > 0;
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isNullableImage = (value: unknown) => value === null || isImageDataUrl(value);
+const isParamValues = (value: unknown) =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(v => isString(v) || Number.isFinite(v));
+const isReference = (value: any) =>
+  isNonEmptyString(value?.id) && isImageDataUrl(value.image) &&
+  REFERENCE_ROLES.some(role => role.id === value.role) && isOptional(value.note, isString);
+const isReferenceList = (value: unknown) => Array.isArray(value) && value.every(isReference);
+const isVariantList = (value: unknown) =>
+  Array.isArray(value) && value.every((v: any) => isNonEmptyString(v?.id) && isImageDataUrl(v.image));
+
+const validateHistoryItem = (value: any, path: string, issues: string[]) => {
+  if (!value || typeof value !== 'object') {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(value.id)) issues.push(`${path}.id must be a non-empty string`);
+  if (!isImageDataUrl(value.original)) issues.push(`${path}.original must be an image`);
+  if (!isImageDataUrl(value.edited)) issues.push(`${path}.edited must be an image`);
+  if (!isString(value.prompt)) issues.push(`${path}.prompt must be a string`);
+  if (!Number.isInteger(value.step) || value.step < 0) issues.push(`${path}.step must be a whole number`);
+  if (!Number.isFinite(value.timestamp)) issues.push(`${path}.timestamp must be a number`);
+  if (!isOptional(value.parentId, isNonEmptyString)) issues.push(`${path}.parentId must be a non-empty string`);
+  if (!isOptional(value.presetId, isString)) issues.push(`${path}.presetId must be a string`);
+  if (!isOptional(value.params, isParamValues)) issues.push(`${path}.params must map names to strings or numbers`);
+  if (!isOptional(value.references, isReferenceList)) issues.push(`${path}.references must be a list of reference images`);
+  if (!isOptional(value.alternates, isVariantList)) issues.push(`${path}.alternates must be a list of images`);
+  if (!isOptional(value.tags, v => Array.isArray(v) && v.every(isString))) issues.push(`${path}.tags must be a list of strings`);
+  if (!isOptional(value.usage, Array.isArray)) issues.push(`${path}.usage must be an array`);
+};
+
+// Parent links must end at a root; a cycle would make every chain walk loop forever
+const findParentCycle = (history: HistoryItem[]): string | undefined => {
+  const byId = new Map(history.map(item => [item.id, item]));
+  for (const item of history) {
+    const seen = new Set<string>();
+    for (let node: HistoryItem | undefined = item; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+      if (seen.has(node.id)) return item.id;
+      seen.add(node.id);
+    }
+  }
+  return undefined;
+};
+
+// Checks every field and returns a workspace with defaults for the optional ones. Throws ProjectFileError listing every problem.
+const validateWorkspace = (value: any): ProjectWorkspace => {
+  const issues: string[] = [];
+  if (!isNullableImage(value.image)) issues.push('image must be an image or null');
+  if (!isOptional(value.sourceName, v => v === null || isString(v))) issues.push('sourceName must be a string or null');
+  if (!isNullableImage(value.editedImage)) issues.push('editedImage must be an image or null');
+  if (!isString(value.customPrompt)) issues.push('customPrompt must be a string');
+  if (typeof value.continueFromResult !== 'boolean') issues.push('continueFromResult must be true or false');
+  if (!isOptional(value.selectedSubPresetId, v => v === null || isString(v))) issues.push('selectedSubPresetId must be a string or null');
+  if (!isOptional(value.presetParams, isParamValues)) issues.push('presetParams must map names to strings or numbers');
+  if (!isOptional(value.references, isReferenceList)) issues.push('references must be a list of reference images');
+  if (!isOptional(value.mask, isNullableImage)) issues.push('mask must be an image or null');
+  if (!isOptional(value.maskFeather, v => Number.isFinite(v) && (v as number) >= 0)) issues.push('maskFeather must be a positive number');
+
+  const history: any[] = value.history;
+  history.forEach((item, i) => validateHistoryItem(item, `history[${i}]`, issues));
+  if (!issues.length) {
+    const ids = new Set(history.map(item => item.id));
+    if (ids.size !== history.length) issues.push('history ids must be unique');
+    for (const key of ['currentNodeId', 'tipNodeId']) {
+      if (value[key] !== null && !ids.has(value[key])) issues.push(`${key} must be null or the id of a history entry`);
+    }
+    const cycle = findParentCycle(history);
+    if (cycle) issues.push(`history entry ${cycle} is its own ancestor`);
+  }
+  if (issues.length) throw new ProjectFileError('The project file is malformed.', issues);
+
+  return {
+    image: value.image,
+    sourceName: value.sourceName ?? null,
+    editedImage: value.editedImage,
+    currentNodeId: value.currentNodeId,
+    tipNodeId: value.tipNodeId,
+    continueFromResult: value.continueFromResult,
+    selectedSubPresetId: value.selectedSubPresetId ?? null,
+    presetParams: value.presetParams ?? {},
+    customPrompt: value.customPrompt,
+    references: value.references ?? [],
+    mask: value.mask ?? null,
+    maskFeather: value.maskFeather ?? 12,
+    history
+  };
+};
+
+// Reads a project zip back into a workspace. Throws ProjectFileError for anything that isn't a readable project.
+export const readProjectFile = async (file: Blob): Promise<ProjectWorkspace> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectFileError('The file is not a zip archive.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) throw new ProjectFileError('The archive has no manifest.json.');
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new ProjectFileError('manifest.json is not valid JSON.');
+  }
+  if (manifest?.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('This is not a Gemini Lens project.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Unsupported project version ${manifest.version}. This app reads version ${PROJECT_FILE_VERSION}.`);
+  }
+  if (!manifest.workspace || typeof manifest.workspace !== 'object' || !Array.isArray(manifest.workspace.history)) {
+    throw new ProjectFileError('The project has no workspace.');
+  }
+
+  // Load every referenced asset up front so the synchronous string mapping can look them up
+  const assets = new Map<string, string>();
+  const missing: string[] = [];
+  mapStrings(manifest.workspace, text => {
+    if (text.startsWith(ASSET_PREFIX)) assets.set(text.slice(ASSET_PREFIX.length), '');
+    return text;
+  });
+  await Promise.all([...assets.keys()].map(async path => {
+    const asset = zip.file(path);
+    if (!asset) {
+      missing.push(path);
+      return;
+    }
+    const mimeType = MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'image/png';
+    assets.set(path, `data:${mimeType};base64,${await asset.async('base64')}`);
+  }));
+  if (missing.length) {
+    throw new ProjectFileError(`The project is missing ${missing.length} image${missing.length === 1 ? '' : 's'} (${missing[0]}${missing.length > 1 ? ', …' : ''}).`);
+  }
+
+  return validateWorkspace(mapStrings(manifest.workspace, text => {
+    if (text.startsWith(ESCAPE)) return text.slice(ESCAPE.length);
+    return text.startsWith(ASSET_PREFIX) ? assets.get(text.slice(ASSET_PREFIX.length)) as string : text;
+  }));
+};
@@ -0,0 +1,19 @@
+import { DEFAULT_RECIPES } from '../constants';
+import { Recipe } from '../types';
+
+// Recipes are small JSON documents, so localStorage is enough here
+const RECIPES_KEY = 'lens-recipes';
+
+export const loadRecipes = (): Recipe[] => {
+  try {
+    const stored = localStorage.getItem(RECIPES_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_RECIPES;
+  } catch (err) {
+    console.error("Failed to read saved recipes:", err);
+    return DEFAULT_RECIPES;
+  }
+};
+
+export const saveRecipes = (recipes: Recipe[]) => {
+  localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+};
@@ -0,0 +1,72 @@
+import { UsageRecord } from '../types';
+import { STORES, clear, getAll, put } from './db';
+
+// Newest first
+export const loadUsage = async (): Promise<UsageRecord[]> => {
+  const records = await getAll<UsageRecord>(STORES.usage);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveUsageRecord = (record: UsageRecord) => put(STORES.usage, record);
+
+export const clearUsage = () => clear(STORES.usage);
+
+// USD per million tokens
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const PRICE_TABLE_KEY = 'lens-price-table';
+
+// Published Gemini API list prices at the time of writing. Edit them in the usage dashboard when they change.
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+  { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 }
+];
+
+const isModelPrice = (value: any): value is ModelPrice =>
+  typeof value?.model === 'string' &&
+  Number.isFinite(value.inputPerMillion) && value.inputPerMillion >= 0 &&
+  Number.isFinite(value.outputPerMillion) && value.outputPerMillion >= 0;
+
+export const loadPriceTable = (): ModelPrice[] => {
+  try {
+    const stored = localStorage.getItem(PRICE_TABLE_KEY);
+    return stored ? (JSON.parse(stored) as unknown[]).filter(isModelPrice) : DEFAULT_PRICE_TABLE;
+  } catch (err) {
+    console.error("Failed to read price table:", err);
+    return DEFAULT_PRICE_TABLE;
+  }
+};
+
+export const savePriceTable = (prices: ModelPrice[]) => {
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(prices));
+};
+
+export type BudgetPeriod = 'day' | 'month';
+
+// Soft cap: once the estimated spend for the period reaches `amount`, runs ask before starting
+export interface UsageBudget {
+  amount: number;
+  period: BudgetPeriod;
+}
+
+const BUDGET_KEY = 'lens-usage-budget';
+
+export const loadBudget = (): UsageBudget | null => {
+  try {
+    const stored = localStorage.getItem(BUDGET_KEY);
+    const budget = stored ? JSON.parse(stored) : null;
+    return budget?.amount > 0 && (budget.period === 'day' || budget.period === 'month') ? budget : null;
+  } catch (err) {
+    console.error("Failed to read budget:", err);
+    return null;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget | null) => {
+  if (budget) localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  else localStorage.removeItem(BUDGET_KEY);
+};
@@ -1,8 +1,28 @@
 
+interface PresetParamBase {
+  // Referenced from the prompt as {{id}}
+  id: string;
+  label: string;
+}
+
+export type PresetParam =
+  | (PresetParamBase & { type: 'enum'; options: string[]; default: string })
+  | (PresetParamBase & { type: 'color'; default: string })
+  | (PresetParamBase & { type: 'slider'; default: number })
+  | (PresetParamBase & { type: 'text'; default: string });
+
+export type PresetParamType = PresetParam['type'];
+
+export type PresetParamValues = Record<string, string | number>;
+
 export interface SubPreset {
   id: string;
   label: string;
+  // May contain {{param}} placeholders filled from `params`
   prompt: string;
+  params?: PresetParam[];
+  // Works locally (e.g. upscaling, denoising), so large images can be edited tile by tile
+  tileable?: boolean;
 }
 
 export interface EditingPreset {
@@ -12,10 +32,128 @@ export interface EditingPreset {
   subPresets: SubPreset[];
 }
 
+export interface Variant {
+  id: string;
+  image: string;
+  favorite?: boolean;
+}
+
+export type ReferenceRole = 'style' | 'background' | 'object' | 'custom';
+
+// An extra image sent alongside the source; the role becomes an instruction in the prompt
+export interface ReferenceImage {
+  id: string;
+  image: string;
+  role: ReferenceRole;
+  // Free text added to the role's instruction, or the whole instruction for 'custom'
+  note?: string;
+}
+
+// One backend call, successful or not. Tokens are zero when no response arrived.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  kind: 'edit' | 'analyze';
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Raw usage metadata from the response
+  metadata?: Record<string, unknown>;
+  latencyMs: number;
+  success: boolean;
+  // Error kind when the call failed
+  error?: string;
+}
+
 export interface HistoryItem {
   id: string;
   original: string;
   edited: string;
+  // The prompt as sent, with every placeholder resolved
   prompt: string;
+  presetId?: string;
+  // Parameter values the preset's prompt was resolved with
+  params?: PresetParamValues;
+  references?: ReferenceImage[];
+  favorite?: boolean;
+  // Variants generated alongside `edited` that weren't picked
+  alternates?: Variant[];
+  // File name of the uploaded photo, used to name exports
+  sourceName?: string;
+  // Filled in by ANALYZE or auto-tagging; used by history search
+  caption?: string;
+  tags?: string[];
+  // Every backend call made for this entry, including retries, variants and tiles
+  usage?: UsageRecord[];
+  // Edit chain: the node whose result was used as this edit's source
+  parentId?: string;
+  step: number;
   timestamp: number;
 }
+
+export interface RecipeStep {
+  presetId?: string;
+  params?: PresetParamValues;
+  customPrompt?: string;
+}
+
+export interface Recipe {
+  id: string;
+  label: string;
+  steps: RecipeStep[];
+}
+
+export type RecipeStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface RecipeStepResult {
+  status: RecipeStepStatus;
+  prompt: string;
+  image?: string;
+  nodeId?: string;
+  error?: string;
+}
+
+export interface RecipeRun {
+  recipe: Recipe;
+  source: string;
+  parentId?: string;
+  steps: RecipeStepResult[];
+}
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  path: string;
+  source: string;
+  mimeType: string;
+  status: BatchJobStatus;
+  result?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface ComparePair {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+// Results of a multi-variant edit waiting for the user to pick one
+export interface VariantSet {
+  source: string;
+  prompt: string;
+  presetId?: string;
+  params?: PresetParamValues;
+  references?: ReferenceImage[];
+  parentId?: string;
+  sourceName?: string;
+  usage?: UsageRecord[];
+  requested: number;
+  // Requests that produced no image; discarding variants doesn't change this
+  failed: number;
+  variants: Variant[];
+}
@@ -0,0 +1,71 @@
+import { getAbortError, throwIfAborted } from '../services/imageEdit/types';
+
+// Resolves after `ms`, or rejects with the cancellation error as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  shouldRetry: (err: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+  // Stops retrying, including mid-backoff, once aborted
+  signal?: AbortSignal;
+}
+
+// Exponential backoff with a little jitter so parallel jobs don't retry in lockstep
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await fn();
+    } catch (err) {
+      if (options.signal?.aborted || attempt >= options.retries || !options.shouldRetry(err)) throw err;
+      const delayMs = options.baseDelayMs * 2 ** attempt + Math.random() * 250;
+      options.onRetry?.(attempt + 1, delayMs, err);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+// Runs the worker over every item with at most `limit` in flight at once
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+// A signal that aborts when `parent` does, or with `timeoutReason()` once `ms` have passed.
+// `ms` of 0 disables the timeout. Call clear() when the work settles.
+export const createTimeoutSignal = (parent: AbortSignal | undefined, ms: number, timeoutReason: () => unknown) => {
+  const controller = new AbortController();
+  const forward = () => controller.abort(parent?.reason);
+  if (parent?.aborted) forward();
+  else parent?.addEventListener('abort', forward, { once: true });
+  const timer = ms > 0 ? setTimeout(() => controller.abort(timeoutReason()), ms) : undefined;
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', forward);
+    }
+  };
+};
@@ -0,0 +1,49 @@
+import { createCanvas, loadImage } from './image';
+
+export interface DiffResult {
+  heatmap: string;
+  // Share of pixels whose largest channel difference exceeds the threshold, 0–1
+  changedRatio: number;
+}
+
+// Cold-to-hot ramp: unchanged pixels stay transparent, small changes blue, large ones red/yellow
+const heatColor = (t: number): [number, number, number] => {
+  if (t < 0.33) return [0, Math.round(t * 3 * 255), 255];
+  if (t < 0.66) return [Math.round((t - 0.33) * 3 * 255), 255, Math.round((0.66 - t) * 3 * 255)];
+  return [255, Math.round((1 - t) * 3 * 255), 0];
+};
+
+// Per-pixel difference of two images, compared at the first image's resolution
+export const computeDiff = async (before: string, after: string, threshold = 8): Promise<DiffResult> => {
+  const [a, b] = await Promise.all([loadImage(before), loadImage(after)]);
+  const width = a.naturalWidth;
+  const height = a.naturalHeight;
+
+  const { ctx: ctxA } = createCanvas(width, height);
+  ctxA.drawImage(a, 0, 0);
+  const { ctx: ctxB } = createCanvas(width, height);
+  ctxB.drawImage(b, 0, 0, width, height);
+  const pixelsA = ctxA.getImageData(0, 0, width, height).data;
+  const pixelsB = ctxB.getImageData(0, 0, width, height).data;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  let changed = 0;
+  for (let i = 0; i < pixelsA.length; i += 4) {
+    const delta = Math.max(
+      Math.abs(pixelsA[i] - pixelsB[i]),
+      Math.abs(pixelsA[i + 1] - pixelsB[i + 1]),
+      Math.abs(pixelsA[i + 2] - pixelsB[i + 2])
+    );
+    if (delta <= threshold) continue;
+    changed++;
+    const t = Math.min(1, delta / 128);
+    const [r, g, bl] = heatColor(t);
+    out.data[i] = r;
+    out.data[i + 1] = g;
+    out.data[i + 2] = bl;
+    out.data[i + 3] = Math.round(96 + t * 159);
+  }
+  ctx.putImageData(out, 0, 0);
+  return { heatmap: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
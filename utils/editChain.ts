@@ -0,0 +1,29 @@
+import { HistoryItem } from '../types';
+
+// Walks parent links from a node back to the start of its chain.
+// Returns the nodes root-first; stops early if an ancestor was pruned from history
+// or if the links loop back on themselves.
+export const getChain = (history: HistoryItem[], nodeId: string | null): HistoryItem[] => {
+  const byId = new Map(history.map(item => [item.id, item]));
+  const chain: HistoryItem[] = [];
+  const visited = new Set<string>();
+  let node = nodeId ? byId.get(nodeId) : undefined;
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id);
+    chain.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return chain;
+};
+
+// Every node descended from the same upload as `nodeId`, including sibling branches that started from it
+export const getTree = (history: HistoryItem[], nodeId: string | null): HistoryItem[] => {
+  const root = getChain(history, nodeId)[0];
+  if (!root) return [];
+  return history.filter(item => getChain(history, item.id)[0]?.original === root.original);
+};
+
+export const getNextStep = (history: HistoryItem[], parentId: string | undefined): number => {
+  const parent = parentId ? history.find(item => item.id === parentId) : undefined;
+  return parent ? parent.step + 1 : 0;
+};
@@ -0,0 +1,98 @@
+import { ImageEditError, ImageEditErrorKind } from '../services/imageEdit';
+
+export type ErrorAction = 'reconnect' | 'billing' | 'retry';
+
+export interface ErrorNotice {
+  kind?: ImageEditErrorKind;
+  title: string;
+  message: string;
+  suggestion?: string;
+  action?: ErrorAction;
+  details?: string;
+}
+
+const NOTICES: Record<ImageEditErrorKind, Omit<ErrorNotice, 'kind' | 'details'>> = {
+  auth: {
+    title: 'Reconnect Required',
+    message: 'The API key or project was rejected.',
+    suggestion: "Click 'Reconnect' and select a valid Project from Google AI Studio.",
+    action: 'reconnect'
+  },
+  billing: {
+    title: 'Billing Required',
+    message: 'The selected Google Project must have an active billing account linked.',
+    suggestion: 'Link a billing account to the project, then try again.',
+    action: 'billing'
+  },
+  quota: {
+    title: 'Rate Limited',
+    message: 'Too many requests or the project quota is used up.',
+    suggestion: 'Wait a minute and retry. Retries were already attempted automatically.',
+    action: 'retry'
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    message: 'Gemini declined to edit this image with this prompt.',
+    suggestion: 'Rephrase the prompt or pick a different preset.'
+  },
+  'no-image': {
+    title: 'No Image Returned',
+    message: 'AI completed but returned no image.',
+    suggestion: 'Try a simpler or more specific prompt.',
+    action: 'retry'
+  },
+  network: {
+    title: 'Connection Problem',
+    message: 'The request did not reach Gemini.',
+    suggestion: 'Check your connection and retry.',
+    action: 'retry'
+  },
+  unavailable: {
+    title: 'Service Unavailable',
+    message: 'Gemini is temporarily unavailable.',
+    suggestion: 'Retry in a moment.',
+    action: 'retry'
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    message: 'Gemini took too long to respond.',
+    suggestion: 'Retry, or try a smaller image.',
+    action: 'retry'
+  },
+  cancelled: {
+    title: 'Cancelled',
+    message: 'The edit was cancelled.'
+  },
+  unknown: {
+    title: 'Editing Failed',
+    message: "Something went wrong while editing. This usually happens if the selected Google Project isn't fully set up in AI Studio.",
+    action: 'retry'
+  }
+};
+
+const formatSafetyDetails = (err: ImageEditError): string | undefined => {
+  const parts = [
+    err.blockReason && `Block reason: ${err.blockReason}`,
+    err.finishReason && `Finish reason: ${err.finishReason}`,
+    ...err.safetyRatings.map(rating => `${rating.category.replace('HARM_CATEGORY_', '')}${rating.probability ? ` (${rating.probability})` : ''}`)
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : undefined;
+};
+
+export const getErrorNotice = (err: unknown): ErrorNotice => {
+  if (!(err instanceof ImageEditError)) {
+    return { ...NOTICES.unknown, kind: 'unknown', details: (err as Error)?.message };
+  }
+  return {
+    ...NOTICES[err.kind],
+    kind: err.kind,
+    details: err.kind === 'safety' ? formatSafetyDetails(err) : err.message
+  };
+};
+
+// Plain notices for failures that don't come from the edit provider
+export const createNotice = (message: string, title = 'Something Went Wrong'): ErrorNotice => ({ title, message });
+
+export const isRetryableError = (err: unknown): boolean => err instanceof ImageEditError && err.retryable;
+
+export const isCancelledError = (err: unknown): boolean => err instanceof ImageEditError && err.kind === 'cancelled';
@@ -0,0 +1,194 @@
+// Minimal EXIF support for JPEG: read a handful of tags from the source photo and
+// write them back into an exported JPEG. Everything else in the original EXIF is dropped.
+
+export interface ExifFields {
+  orientation?: number;
+  dateTime?: string;
+  dateTimeOriginal?: string;
+  artist?: string;
+  copyright?: string;
+}
+
+const TAGS = {
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  dateTimeOriginal: 0x9003
+};
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+// Metadata segments come before the image data and an APP1 segment is at most 64 KB,
+// so reading tags never needs more than the start of the file
+const METADATA_SCAN_BYTES = 256 * 1024;
+
+// Decodes the data URL's payload, or only its first `maxBytes` bytes
+export const dataUrlToBytes = (dataUrl: string, maxBytes?: number): Uint8Array => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(maxBytes === undefined ? base64 : base64.slice(0, Math.ceil(maxBytes / 3) * 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Finds the APP1 Exif segment; returns the offset of its TIFF header
+const findTiffStart = (bytes: Uint8Array): number | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => bytes[offset + 4 + i] === b)) {
+      return offset + 4 + EXIF_HEADER.length;
+    }
+    if (marker === 0xda) break; // start of scan: no more metadata
+    offset += 2 + length;
+  }
+  return null;
+};
+
+export const readExif = (dataUrl: string): ExifFields | null => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return null;
+  const bytes = dataUrlToBytes(dataUrl, METADATA_SCAN_BYTES);
+  const tiff = findTiffStart(bytes);
+  if (tiff === null) return null;
+
+  const view = new DataView(bytes.buffer, tiff);
+  const little = view.getUint16(0) === 0x4949;
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+
+  const readAscii = (entry: number) => {
+    const count = u32(entry + 4);
+    const start = count > 4 ? u32(entry + 8) : entry + 8;
+    let text = '';
+    for (let i = 0; i < count && start + i < view.byteLength; i++) {
+      const code = view.getUint8(start + i);
+      if (!code) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || undefined;
+  };
+
+  const fields: ExifFields = {};
+  const readIfd = (ifd: number) => {
+    if (ifd <= 0 || ifd + 2 > view.byteLength) return;
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > view.byteLength) return;
+      switch (u16(entry)) {
+        case TAGS.orientation: fields.orientation = u16(entry + 8); break;
+        case TAGS.dateTime: fields.dateTime = readAscii(entry); break;
+        case TAGS.artist: fields.artist = readAscii(entry); break;
+        case TAGS.copyright: fields.copyright = readAscii(entry); break;
+        case TAGS.dateTimeOriginal: fields.dateTimeOriginal = readAscii(entry); break;
+        case TAGS.exifIfd: readIfd(u32(entry + 8)); break;
+      }
+    }
+  };
+
+  try {
+    readIfd(u32(4));
+  } catch (err) {
+    console.debug("Ignoring malformed EXIF block:", err);
+    return null;
+  }
+  return Object.keys(fields).length ? fields : null;
+};
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  value: number | string;
+}
+
+const ascii = (tag: number, value: string): IfdEntry => ({ tag, type: TYPE_ASCII, value: `${value}\0` });
+
+// Lays out one IFD at `offset` (relative to the TIFF header), values that don't fit inline after it
+const buildIfd = (entries: IfdEntry[], offset: number): Uint8Array => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + sorted.length * 12 + 4;
+  const dataSize = sorted.reduce((sum, e) => sum + (e.type === TYPE_ASCII && (e.value as string).length > 4 ? (e.value as string).length : 0), 0);
+  const out = new Uint8Array(tableSize + dataSize);
+  const view = new DataView(out.buffer);
+
+  view.setUint16(0, sorted.length, true);
+  let data = tableSize;
+  sorted.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    if (entry.type === TYPE_ASCII) {
+      const text = entry.value as string;
+      view.setUint32(at + 4, text.length, true);
+      const target = text.length > 4 ? data : at + 8;
+      if (text.length > 4) {
+        view.setUint32(at + 8, offset + data, true);
+        data += text.length;
+      }
+      for (let c = 0; c < text.length; c++) out[target + c] = text.charCodeAt(c) & 0xff;
+    } else {
+      view.setUint32(at + 4, 1, true);
+      if (entry.type === TYPE_SHORT) view.setUint16(at + 8, entry.value as number, true);
+      else view.setUint32(at + 8, entry.value as number, true);
+    }
+  });
+  view.setUint32(tableSize - 4, 0, true); // no next IFD
+  return out;
+};
+
+const buildExifSegment = (fields: ExifFields): Uint8Array => {
+  const ifd0: IfdEntry[] = [];
+  if (fields.orientation) ifd0.push({ tag: TAGS.orientation, type: TYPE_SHORT, value: fields.orientation });
+  if (fields.dateTime) ifd0.push(ascii(TAGS.dateTime, fields.dateTime));
+  if (fields.artist) ifd0.push(ascii(TAGS.artist, fields.artist));
+  if (fields.copyright) ifd0.push(ascii(TAGS.copyright, fields.copyright));
+  const exifIfd: IfdEntry[] = fields.dateTimeOriginal ? [ascii(TAGS.dateTimeOriginal, fields.dateTimeOriginal)] : [];
+
+  // IFD0 size doesn't depend on the pointer's value, so lay it out once to measure it
+  const pointer: IfdEntry = { tag: TAGS.exifIfd, type: TYPE_LONG, value: 0 };
+  const ifd0Entries = exifIfd.length ? [...ifd0, pointer] : ifd0;
+  const ifd0Size = buildIfd(ifd0Entries, 8).length;
+  pointer.value = 8 + ifd0Size;
+  const tiffBody = [buildIfd(ifd0Entries, 8), ...(exifIfd.length ? [buildIfd(exifIfd, 8 + ifd0Size)] : [])];
+
+  const header = [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]; // little endian, IFD0 at 8
+  const tiffLength = header.length + tiffBody.reduce((sum, part) => sum + part.length, 0);
+  const segmentLength = 2 + EXIF_HEADER.length + tiffLength;
+
+  const segment = new Uint8Array(2 + segmentLength);
+  segment.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff, ...EXIF_HEADER, ...header]);
+  let at = 4 + EXIF_HEADER.length + header.length;
+  for (const part of tiffBody) {
+    segment.set(part, at);
+    at += part.length;
+  }
+  return segment;
+};
+
+// Inserts an EXIF segment right after the SOI marker of a JPEG data URL
+export const writeExif = (jpegDataUrl: string, fields: ExifFields): string => {
+  if (!Object.values(fields).some(Boolean)) return jpegDataUrl;
+  const bytes = dataUrlToBytes(jpegDataUrl);
+  const segment = buildExifSegment(fields);
+  const out = new Uint8Array(bytes.length + segment.length);
+  out.set(bytes.subarray(0, 2));
+  out.set(segment, 2);
+  out.set(bytes.subarray(2), 2 + segment.length);
+  return bytesToDataUrl(out, 'image/jpeg');
+};
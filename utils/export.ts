@@ -0,0 +1,51 @@
+import { ExifFields, writeExif } from './exif';
+import { createCanvas, getExtension, loadImage } from './image';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 1–100, ignored for PNG
+  quality: number;
+  size?: { width: number; height: number };
+  exif?: ExifFields;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'image/png', label: 'PNG' },
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' }
+];
+
+export class UnsupportedExportFormatError extends Error {
+  constructor(format: ExportFormat) {
+    super(`This browser can't save ${EXPORT_FORMATS.find(f => f.id === format)?.label ?? format} images. Choose another format.`);
+    this.name = 'UnsupportedExportFormatError';
+  }
+}
+
+// Re-encodes an image in the chosen format, optionally resized and with EXIF (JPEG only)
+export const exportImage = async (image: string, options: ExportOptions): Promise<string> => {
+  const img = await loadImage(image);
+  const width = options.size?.width ?? img.naturalWidth;
+  const height = options.size?.height ?? img.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  if (options.format === 'image/jpeg') {
+    // JPEG has no alpha; flatten onto white instead of black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const dataUrl = canvas.toDataURL(options.format, options.quality / 100);
+  // Browsers that can't encode a format silently fall back to PNG
+  if (!dataUrl.startsWith(`data:${options.format};`)) throw new UnsupportedExportFormatError(options.format);
+  return options.format === 'image/jpeg' && options.exif ? writeExif(dataUrl, options.exif) : dataUrl;
+};
+
+export const buildExportName = (sourceName: string | null, presetId: string | undefined, format: string): string => {
+  const base = (sourceName || 'gemini').replace(/\.[^./]+$/, '');
+  return `${base}-${presetId || 'edit'}.${getExtension(format)}`;
+};
@@ -0,0 +1,49 @@
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+// Relative path inside a dropped/selected folder, or just the filename
+export const getFilePath = (file: File): string =>
+  (file as File & { relativePath?: string }).relativePath || file.webkitRelativePath || file.name;
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(file => {
+        // Keep the folder structure so batch exports can mirror it
+        Object.defineProperty(file, 'relativePath', { value: entry.fullPath.replace(/^\//, '') });
+        resolve([file]);
+      }, reject);
+    });
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const readBatch = (): Promise<FileSystemEntry[]> => new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+  return (async () => {
+    const files: File[] = [];
+    // readEntries returns results in chunks until it yields an empty batch
+    for (let batch = await readBatch(); batch.length; batch = await readBatch()) {
+      for (const child of batch) files.push(...await readEntry(child));
+    }
+    return files;
+  })();
+};
+
+// Collects image files from a drop, descending into any dropped folders
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : Array.from(dataTransfer.files);
+  return files.filter(isImageFile);
+};
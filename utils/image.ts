@@ -0,0 +1,36 @@
+// Helpers for working with base64 data URLs
+
+export const getMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+
+export const getBase64Data = (dataUrl: string): string => dataUrl.split(',')[1];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export const getExtension = (mimeType: string): string => EXTENSIONS[mimeType] || 'png';
+
+// Swaps a filename's extension for the one matching the encoded format
+export const replaceExtension = (filename: string, mimeType: string): string =>
+  `${filename.replace(/\.[^./]+$/, '')}.${getExtension(mimeType)}`;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d') as CanvasRenderingContext2D };
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
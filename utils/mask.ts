@@ -0,0 +1,53 @@
+import { createCanvas, loadImage } from './image';
+
+// Masks are painted as opaque strokes on a transparent canvas; only the alpha channel matters.
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = (canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i]) return false;
+  }
+  return true;
+};
+
+// White-on-black rendering the model can read as "edit here"
+export const maskToBinary = async (mask: string): Promise<string> => {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Blends the edited image into the original through the mask. The feather is applied
+// inside the mask edge only, so every pixel outside the mask keeps its original value.
+export const compositeWithMask = async (original: string, edited: string, mask: string, featherPx: number): Promise<string> => {
+  const [base, result, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const { width, height } = base;
+
+  const { canvas: alpha, ctx: alphaCtx } = createCanvas(width, height);
+  if (featherPx > 0) {
+    alphaCtx.filter = `blur(${featherPx}px)`;
+    alphaCtx.drawImage(maskImg, 0, 0, width, height);
+    alphaCtx.filter = 'none';
+  } else {
+    alphaCtx.drawImage(maskImg, 0, 0, width, height);
+  }
+  alphaCtx.globalCompositeOperation = 'destination-in';
+  alphaCtx.drawImage(maskImg, 0, 0, width, height);
+
+  const { canvas: layer, ctx: layerCtx } = createCanvas(width, height);
+  layerCtx.drawImage(result, 0, 0, width, height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(alpha, 0, 0);
+
+  const { canvas: out, ctx } = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return out.toDataURL('image/png');
+};
@@ -0,0 +1,61 @@
+import { readExif, writeExif } from './exif';
+import { createCanvas, getMimeType, loadImage } from './image';
+
+// Formats the image backends accept as-is. Everything else is re-encoded on upload.
+export const SUPPORTED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Lossless-looking sources (graphics, screenshots) stay PNG; photos become JPEG
+const PNG_FALLBACK_TYPES = ['image/gif', 'image/bmp', 'image/svg+xml', 'image/x-icon', 'image/vnd.microsoft.icon'];
+
+const JPEG_QUALITY = 0.92;
+
+export class UnsupportedImageError extends Error {
+  constructor(mimeType: string) {
+    super(`This browser can't decode ${mimeType || 'this file type'}. Convert it to JPEG or PNG first.`);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+const encode = (canvas: HTMLCanvasElement, mimeType: string) =>
+  canvas.toDataURL(mimeType, mimeType === 'image/png' ? undefined : JPEG_QUALITY);
+
+// Bakes EXIF orientation into the pixels and converts unsupported formats.
+// Full resolution is kept; downscaling happens per request (see fitToMaxEdge).
+export const normalizeImage = async (dataUrl: string): Promise<string> => {
+  const mimeType = getMimeType(dataUrl);
+  const exif = readExif(dataUrl);
+  const rotated = !!exif?.orientation && exif.orientation !== 1;
+  if (SUPPORTED_UPLOAD_TYPES.includes(mimeType) && !rotated) return dataUrl;
+
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(dataUrl);
+  } catch {
+    throw new UnsupportedImageError(mimeType);
+  }
+
+  // Browsers apply EXIF orientation when drawing, so the canvas comes out upright
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const target = SUPPORTED_UPLOAD_TYPES.includes(mimeType)
+    ? mimeType
+    : PNG_FALLBACK_TYPES.includes(mimeType) ? 'image/png' : 'image/jpeg';
+  const normalized = encode(canvas, target);
+
+  // Re-encoding drops metadata: put back what export can copy, minus the now-applied orientation
+  return exif && target === 'image/jpeg' ? writeExif(normalized, { ...exif, orientation: undefined }) : normalized;
+};
+
+// Scales the image down so its longest edge is at most maxEdge. 0 disables the limit.
+export const fitToMaxEdge = async (dataUrl: string, maxEdge: number): Promise<string> => {
+  if (!maxEdge) return dataUrl;
+  const img = await loadImage(dataUrl);
+  const longest = Math.max(img.naturalWidth, img.naturalHeight);
+  if (longest <= maxEdge) return dataUrl;
+
+  const scale = maxEdge / longest;
+  const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return encode(canvas, getMimeType(dataUrl));
+};
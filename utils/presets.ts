@@ -0,0 +1,53 @@
+import { EditingPreset, PresetParam, PresetParamValues, RecipeStep, SubPreset } from '../types';
+
+export const findSubPreset = (presets: EditingPreset[], id: string): SubPreset | undefined => {
+  for (const category of presets) {
+    const match = category.subPresets.find(sub => sub.id === id);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const clampSlider = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+const coerceParam = (param: PresetParam, value: string | number | undefined): string | number => {
+  if (value === undefined) return param.default;
+  switch (param.type) {
+    case 'slider':
+      return Number.isFinite(Number(value)) ? clampSlider(Number(value)) : param.default;
+    case 'enum':
+      return param.options.includes(String(value)) ? String(value) : param.default;
+    default:
+      return String(value);
+  }
+};
+
+// Fills in defaults for missing or invalid values. Returns undefined for presets without parameters.
+export const getParamValues = (sub: SubPreset, values?: PresetParamValues): PresetParamValues | undefined => {
+  if (!sub.params?.length) return undefined;
+  return Object.fromEntries(sub.params.map(param => [param.id, coerceParam(param, values?.[param.id])]));
+};
+
+// Substitutes {{param}} placeholders. Placeholders that don't name a parameter are left as written.
+export const resolvePrompt = (sub: SubPreset, values?: PresetParamValues): string => {
+  const resolved = getParamValues(sub, values);
+  if (!resolved) return sub.prompt;
+  return sub.prompt.replace(PLACEHOLDER, (match, id: string) => (id in resolved ? String(resolved[id]) : match)).trim();
+};
+
+export const getStepPrompt = (presets: EditingPreset[], step: RecipeStep): string => {
+  if (step.customPrompt) return step.customPrompt;
+  const sub = step.presetId ? findSubPreset(presets, step.presetId) : undefined;
+  return sub ? resolvePrompt(sub, step.params) : '';
+};
+
+export const getStepLabel = (presets: EditingPreset[], step: RecipeStep): string =>
+  step.presetId ? findSubPreset(presets, step.presetId)?.label ?? step.presetId : 'Custom';
+
+export const getStepParams = (presets: EditingPreset[], step: RecipeStep): PresetParamValues | undefined => {
+  if (step.customPrompt || !step.presetId) return undefined;
+  const sub = findSubPreset(presets, step.presetId);
+  return sub ? getParamValues(sub, step.params) : undefined;
+};
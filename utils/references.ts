@@ -0,0 +1,22 @@
+import { ImageEditReference } from '../services/imageEdit';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { getMimeType } from './image';
+
+export const MAX_REFERENCES = 3;
+
+export const REFERENCE_ROLES: { id: ReferenceRole; label: string; instruction: string }[] = [
+  { id: 'style', label: 'Style', instruction: 'Style reference. Apply its color grade, lighting and artistic style to image 1.' },
+  { id: 'background', label: 'Background', instruction: 'Background plate. Place the subject of image 1 in this scene, matching its perspective and light.' },
+  { id: 'object', label: 'Object', instruction: 'Object to insert. Place this object naturally into image 1, matching scale, lighting and shadows.' },
+  { id: 'custom', label: 'Custom', instruction: 'Additional reference.' }
+];
+
+export const getReferenceInstruction = (ref: ReferenceImage): string => {
+  const note = ref.note?.trim();
+  if (ref.role === 'custom' && note) return note;
+  const base = REFERENCE_ROLES.find(role => role.id === ref.role)?.instruction ?? '';
+  return note ? `${base} ${note}` : base;
+};
+
+export const toEditReferences = (refs: ReferenceImage[]): ImageEditReference[] =>
+  refs.map(ref => ({ image: ref.image, mimeType: getMimeType(ref.image), instruction: getReferenceInstruction(ref) }));
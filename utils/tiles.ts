@@ -0,0 +1,91 @@
+import { createCanvas, getMimeType, loadImage } from './image';
+
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  image: string;
+}
+
+export const TILE_SIZE = 1024;
+export const TILE_OVERLAP = 96;
+
+export const TILE_INSTRUCTION =
+  "This is one tile cut from a larger photo. Keep the framing exactly as it is and don't add borders, vignettes or new objects at the edges.";
+
+// Tile origins along one axis so that neighbours overlap by at least `overlap` px
+const getOrigins = (length: number, size: number, overlap: number) => {
+  if (length <= size) return [0];
+  const count = Math.ceil((length - overlap) / (size - overlap));
+  const step = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+};
+
+export const countTiles = (width: number, height: number, size = TILE_SIZE, overlap = TILE_OVERLAP) =>
+  getOrigins(width, size, overlap).length * getOrigins(height, size, overlap).length;
+
+// Number of backend requests a tiled edit of this image makes
+export const getTileCount = async (dataUrl: string) => {
+  const img = await loadImage(dataUrl);
+  return countTiles(img.naturalWidth, img.naturalHeight);
+};
+
+export const splitIntoTiles = async (dataUrl: string, size = TILE_SIZE, overlap = TILE_OVERLAP) => {
+  const img = await loadImage(dataUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const mimeType = getMimeType(dataUrl);
+
+  const tiles: Tile[] = [];
+  for (const y of getOrigins(height, size, overlap)) {
+    for (const x of getOrigins(width, size, overlap)) {
+      const w = Math.min(size, width);
+      const h = Math.min(size, height);
+      const { canvas, ctx } = createCanvas(w, h);
+      ctx.drawImage(img, x, y, w, h, 0, 0, w, h);
+      tiles.push({ x, y, width: w, height: h, image: canvas.toDataURL(mimeType) });
+    }
+  }
+  return { tiles, width, height };
+};
+
+// Reassembles edited tiles. Each tile fades in linearly across the overlap with the tiles
+// above and to its left, which hides seams where the model rendered edges differently.
+// The output is scaled by however much the model enlarged the tiles (e.g. for upscaling).
+export const blendTiles = async (tiles: Tile[], edited: string[], width: number, height: number): Promise<string> => {
+  const images = await Promise.all(edited.map(loadImage));
+  const scale = images[0].naturalWidth / tiles[0].width;
+  const { canvas: out, ctx } = createCanvas(Math.round(width * scale), Math.round(height * scale));
+
+  tiles.forEach((tile, i) => {
+    const w = Math.round(tile.width * scale);
+    const h = Math.round(tile.height * scale);
+    const { canvas: layer, ctx: layerCtx } = createCanvas(w, h);
+    layerCtx.drawImage(images[i], 0, 0, w, h);
+    layerCtx.globalCompositeOperation = 'destination-in';
+
+    const left = tiles.find(t => t.y === tile.y && t.x < tile.x && t.x + t.width > tile.x);
+    if (left) {
+      const overlap = (left.x + left.width - tile.x) * scale;
+      const gradient = layerCtx.createLinearGradient(0, 0, overlap, 0);
+      gradient.addColorStop(0, 'rgba(0,0,0,0)');
+      gradient.addColorStop(1, 'rgba(0,0,0,1)');
+      layerCtx.fillStyle = gradient;
+      layerCtx.fillRect(0, 0, w, h);
+    }
+    const above = tiles.find(t => t.x === tile.x && t.y < tile.y && t.y + t.height > tile.y);
+    if (above) {
+      const overlap = (above.y + above.height - tile.y) * scale;
+      const gradient = layerCtx.createLinearGradient(0, 0, 0, overlap);
+      gradient.addColorStop(0, 'rgba(0,0,0,0)');
+      gradient.addColorStop(1, 'rgba(0,0,0,1)');
+      layerCtx.fillStyle = gradient;
+      layerCtx.fillRect(0, 0, w, h);
+    }
+
+    ctx.drawImage(layer, Math.round(tile.x * scale), Math.round(tile.y * scale));
+  });
+
+  return out.toDataURL('image/png');
+};
@@ -0,0 +1,67 @@
+import { UsageRecord } from '../types';
+import { BudgetPeriod, ModelPrice } from '../services/usageStore';
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+  // Calls that used tokens on a model missing from the price table
+  unpriced: number;
+}
+
+// Estimated USD cost of one call; zero for models without a price
+export const estimateCost = (record: UsageRecord, prices: ModelPrice[]): number => {
+  const price = prices.find(p => p.model === record.model);
+  if (!price) return 0;
+  return (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const sumUsage = (records: UsageRecord[], prices: ModelPrice[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    failures: totals.failures + (record.success ? 0 : 1),
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + estimateCost(record, prices),
+    unpriced: totals.unpriced + (record.totalTokens && !prices.some(p => p.model === record.model) ? 1 : 0)
+  }), { calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0, unpriced: 0 });
+
+// Mean estimated cost of a successful call to `model`, for projecting what a run will cost
+export const getAverageCost = (records: UsageRecord[], prices: ModelPrice[], model: string): number => {
+  const matching = records.filter(record => record.success && record.model === model);
+  return matching.length ? sumUsage(matching, prices).cost / matching.length : 0;
+};
+
+// Local calendar key: "2025-03-14" for days, "2025-03" for months
+export const getPeriodKey = (timestamp: number, period: BudgetPeriod): string => {
+  const date = new Date(timestamp);
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return period === 'month' ? month : `${month}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Totals per group, in order of first appearance (newest first for a newest-first log)
+export const groupUsage = (records: UsageRecord[], prices: ModelPrice[], keyOf: (record: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+  return [...groups].map(([key, group]) => ({ key, totals: sumUsage(group, prices) }));
+};
+
+export const getPeriodSpend = (records: UsageRecord[], prices: ModelPrice[], period: BudgetPeriod, now = Date.now()): number => {
+  const current = getPeriodKey(now, period);
+  return sumUsage(records.filter(record => getPeriodKey(record.timestamp, period) === current), prices).cost;
+};
+
+// Sub-cent amounts get more digits so single calls don't all read "$0.00"
+export const formatCost = (usd: number): string => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);